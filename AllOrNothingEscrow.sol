@@ -0,0 +1,162 @@
+// contracts/AllOrNothingEscrow.sol
+// SPDX-License-Identifier: MIT
+// Escrow for all-or-nothing campaigns. Donations are pulled in with Permit2 signature
+// transfers; once the deadline passes the beneficiary's funds are released if the goal was
+// met, otherwise each donor can take back their own contribution.
+//
+// A campaign's key is derived from the account that opens it and the app's campaign id, so
+// nobody can open an escrow under someone else's campaign. The app opens it from the owner's
+// wallet and checks the terms against the campaign before taking donations.
+//
+// The app's bindings are ESCROW_ABI in src/services/EscrowService.ts.
+pragma solidity ^0.8.20;
+
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+}
+
+// The subset of Permit2's SignatureTransfer interface the escrow uses
+interface ISignatureTransfer {
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+}
+
+contract AllOrNothingEscrow {
+    struct Campaign {
+        address beneficiary;
+        uint256 goal;
+        uint64 deadline;
+        uint256 raised;
+        bool claimed;
+    }
+
+    ISignatureTransfer public immutable permit2;
+    IERC20 public immutable token;
+
+    mapping(bytes32 => Campaign) private campaigns;
+    mapping(bytes32 => mapping(address => uint256)) public contributionOf;
+
+    event CampaignOpened(
+        bytes32 indexed campaignKey,
+        address indexed opener,
+        bytes32 campaignId,
+        address beneficiary,
+        uint256 goal,
+        uint64 deadline
+    );
+    // paymentReference is keccak256 of the payment intent reference, so the backend can match the intent
+    event Donated(bytes32 indexed campaignKey, address indexed donor, bytes32 indexed paymentReference, uint256 amount);
+    event Claimed(bytes32 indexed campaignKey, address indexed beneficiary, uint256 amount);
+    event Refunded(bytes32 indexed campaignKey, address indexed donor, uint256 amount);
+
+    error AlreadyOpened();
+    error NotOpened();
+    error InvalidCampaign();
+    error WrongToken();
+    error FundingClosed();
+    error FundingOpen();
+    error GoalNotMet();
+    error GoalMet();
+    error AlreadyClaimed();
+    error NothingToRefund();
+    error TransferFailed();
+
+    constructor(ISignatureTransfer permit2_, IERC20 token_) {
+        permit2 = permit2_;
+        token = token_;
+    }
+
+    // campaignId is keccak256 of the app's campaign id
+    function campaignKeyOf(address opener, bytes32 campaignId) public pure returns (bytes32) {
+        return keccak256(abi.encode(opener, campaignId));
+    }
+
+    function openCampaign(bytes32 campaignId, address beneficiary, uint256 goal, uint64 deadline)
+        external
+        returns (bytes32 campaignKey)
+    {
+        campaignKey = campaignKeyOf(msg.sender, campaignId);
+        if (campaigns[campaignKey].beneficiary != address(0)) revert AlreadyOpened();
+        if (beneficiary == address(0) || goal == 0 || deadline <= block.timestamp) revert InvalidCampaign();
+        campaigns[campaignKey] = Campaign(beneficiary, goal, deadline, 0, false);
+        emit CampaignOpened(campaignKey, msg.sender, campaignId, beneficiary, goal, deadline);
+    }
+
+    function donate(
+        bytes32 campaignKey,
+        bytes32 paymentReference,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) external {
+        Campaign storage campaign = campaigns[campaignKey];
+        if (campaign.beneficiary == address(0)) revert NotOpened();
+        if (block.timestamp >= campaign.deadline) revert FundingClosed();
+        if (permit.permitted.token != address(token)) revert WrongToken();
+
+        uint256 amount = permit.permitted.amount;
+        permit2.permitTransferFrom(
+            permit,
+            ISignatureTransfer.SignatureTransferDetails({to: address(this), requestedAmount: amount}),
+            msg.sender,
+            signature
+        );
+
+        campaign.raised += amount;
+        contributionOf[campaignKey][msg.sender] += amount;
+        emit Donated(campaignKey, msg.sender, paymentReference, amount);
+    }
+
+    function claim(bytes32 campaignKey) external {
+        Campaign storage campaign = campaigns[campaignKey];
+        if (campaign.beneficiary == address(0)) revert NotOpened();
+        if (block.timestamp < campaign.deadline) revert FundingOpen();
+        if (campaign.raised < campaign.goal) revert GoalNotMet();
+        if (campaign.claimed) revert AlreadyClaimed();
+
+        campaign.claimed = true;
+        if (!token.transfer(campaign.beneficiary, campaign.raised)) revert TransferFailed();
+        emit Claimed(campaignKey, campaign.beneficiary, campaign.raised);
+    }
+
+    function refund(bytes32 campaignKey) external {
+        Campaign storage campaign = campaigns[campaignKey];
+        if (campaign.beneficiary == address(0)) revert NotOpened();
+        if (block.timestamp < campaign.deadline) revert FundingOpen();
+        if (campaign.raised >= campaign.goal) revert GoalMet();
+
+        uint256 amount = contributionOf[campaignKey][msg.sender];
+        if (amount == 0) revert NothingToRefund();
+        contributionOf[campaignKey][msg.sender] = 0;
+        if (!token.transfer(msg.sender, amount)) revert TransferFailed();
+        emit Refunded(campaignKey, msg.sender, amount);
+    }
+
+    function getCampaign(bytes32 campaignKey)
+        external
+        view
+        returns (address beneficiary, uint256 goal, uint64 deadline, uint256 raised, bool claimed)
+    {
+        Campaign storage campaign = campaigns[campaignKey];
+        return (campaign.beneficiary, campaign.goal, campaign.deadline, campaign.raised, campaign.claimed);
+    }
+}
@@ -9,10 +9,15 @@ import ProtectedRoute from './components/ProtectedRoute';
 import LandingPage from './pages/LandingPage';
 import CampaignsPage from './pages/CampaignsPage';
 import Dashboard from './pages/Dashboard';
-import TipJar from './pages/TipJar';
+import MyDonationsPage from './pages/MyDonationsPage';
+import MyPledgesPage from './pages/MyPledgesPage';
+import FundingRoundsPage from './pages/FundingRoundsPage';
+import FundingRoundPage from './pages/FundingRoundPage';
+import ReceiptPage from './pages/ReceiptPage';
 import EditCampaignPage from './pages/EditCampaignPage'; // Your existing component
 import { CampaignDetail } from './pages/CampaignDetailPage';
 import { CreateCampaignForm } from './components/CreateCampaignForm';
+import { TestModeBanner } from './components/TestModeBanner';
 
 // Loading fallback component
 const LoadingFallback: React.FC = () => {
@@ -39,6 +44,7 @@ const App: React.FC = () => {
 
   return (
     <Suspense fallback={<LoadingFallback />}>
+      <TestModeBanner />
       <Routes>
         {/* Redirect base path */}
         <Route path="/" element={<Navigate to="/landing" replace />} />
@@ -48,6 +54,8 @@ const App: React.FC = () => {
         <Route path="/campaigns" element={<CampaignsPage />} />
         {/* Using CampaignDetailWrapper, assuming CampaignDetail still expects 'id' prop */}
         <Route path="/campaigns/:id" element={<CampaignDetailWrapper />} />
+        <Route path="/rounds" element={<FundingRoundsPage />} />
+        <Route path="/rounds/:id" element={<FundingRoundPage />} />
 
         {/* Protected Routes */}
         <Route
@@ -59,10 +67,26 @@ const App: React.FC = () => {
           }
         />
         <Route
-          path="/tip-jar"
+          path="/my-donations"
           element={
             <ProtectedRoute>
-              <TipJar />
+              <MyDonationsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/my-pledges"
+          element={
+            <ProtectedRoute>
+              <MyPledgesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/receipts/:campaignId/:donationId"
+          element={
+            <ProtectedRoute>
+              <ReceiptPage />
             </ProtectedRoute>
           }
         />
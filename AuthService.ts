@@ -7,6 +7,15 @@ import type { ISuccessResult as IDKitSuccessResult } from '@worldcoin/idkit';
 // Constants
 const SESSION_TOKEN_KEY = 'worldfund_session_token';
 const WALLET_ADDRESS_KEY  = 'worldfund_wallet_address';
+const WORLD_ID_KEY = 'worldfund_world_id';
+
+// Result of a backend-verified World ID proof. The nullifier is unique per human for the
+// app's action, so it identifies repeat contributions without revealing who made them.
+export interface WorldIdVerification {
+  nullifierHash: string;
+  verificationLevel: string;
+  verifiedAt: string;
+}
 
 // Class for authentication service
 class AuthService {
@@ -158,7 +167,7 @@ class AuthService {
   /** Verifies World ID proof with the backend */
   public async verifyWorldIdProof(
     proof: IDKitSuccessResult
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; verification?: WorldIdVerification; error?: string }> {
     console.log('[AuthService] Verifying World ID proof...');
     try {
       const res = await fetch(`${this.API_BASE}/verify-worldid`, {
@@ -179,8 +188,22 @@ class AuthService {
         };
       }
 
+      const data = await res.json().catch(() => ({}));
+      // Only trust the level the backend verified; the proof's own level is client-supplied
+      const verificationLevel: string | undefined = (data as any).verificationLevel;
+      if (!verificationLevel) {
+        console.error('[AuthService] World ID verification response has no verification level');
+        return { success: false, error: 'World ID verification could not be confirmed' };
+      }
+      const verification: WorldIdVerification = {
+        nullifierHash: (data as any).nullifierHash || proof.nullifier_hash,
+        verificationLevel,
+        verifiedAt: new Date().toISOString(),
+      };
+      localStorage.setItem(WORLD_ID_KEY, JSON.stringify(verification));
+
       console.log('[AuthService] World ID proof verified successfully');
-      return { success: true };
+      return { success: true, verification };
     } catch (error: any) {
       console.error('[AuthService] Error verifying World ID proof:', error);
       return {
@@ -190,6 +213,17 @@ class AuthService {
     }
   }
 
+  /** World ID verification from this session, if the user has verified */
+  public getWorldIdVerification(): WorldIdVerification | null {
+    try {
+      const stored = localStorage.getItem(WORLD_ID_KEY);
+      return stored ? (JSON.parse(stored) as WorldIdVerification) : null;
+    } catch (error) {
+      console.error('[AuthService] Error reading World ID verification:', error);
+      return null;
+    }
+  }
+
   /** Logs the user out */
   public async logout(): Promise<{ success: boolean; error?: string }> {
     console.log('[AuthService] Logging out...');
@@ -197,6 +231,7 @@ class AuthService {
       // Clear local session
       localStorage.removeItem(SESSION_TOKEN_KEY);
       localStorage.removeItem(WALLET_ADDRESS_KEY);
+      localStorage.removeItem(WORLD_ID_KEY);
       console.log('[AuthService] Logout successful');
       return { success: true };
     } catch (error: any) {
@@ -0,0 +1,42 @@
+// src/components/CampaignCountdown.tsx
+import React, { useEffect, useState } from 'react';
+import type { Campaign } from '../services/CampaignService';
+import { getCampaignEndDate, getSchedulePhase, formatDuration } from '../utils/campaignSchedule';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface CampaignCountdownProps {
+  campaign: Pick<Campaign, 'startDate' | 'endDate' | 'escrowDeadline'>;
+  className?: string;
+  // Shown instead when the campaign is open with no end date
+  fallback?: React.ReactNode;
+}
+
+// Live time until launch or deadline; ticks every second in the final hour
+export const CampaignCountdown: React.FC<CampaignCountdownProps> = ({ campaign, className, fallback = null }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const phase = getSchedulePhase(campaign, now);
+  const endDate = getCampaignEndDate(campaign);
+  const target = phase === 'upcoming' ? campaign.startDate : phase === 'open' ? endDate : undefined;
+  const remaining = target ? new Date(target).getTime() - now : null;
+  const hasTarget = remaining !== null;
+  const finalHour = hasTarget && remaining < HOUR_MS;
+
+  useEffect(() => {
+    if (!hasTarget) return;
+    const timer = setInterval(() => setNow(Date.now()), finalHour ? 1000 : 60_000);
+    return () => clearInterval(timer);
+  }, [hasTarget, finalHour]);
+
+  if (phase === 'ended') {
+    return <span className={className}>Ended {new Date(endDate!).toLocaleDateString()}</span>;
+  }
+  if (remaining === null) {
+    return <>{fallback}</>;
+  }
+  return (
+    <span className={className} title={new Date(target!).toLocaleString()}>
+      {phase === 'upcoming' ? `Starts in ${formatDuration(remaining)}` : `${formatDuration(remaining)} left`}
+    </span>
+  );
+};
@@ -1,14 +1,59 @@
 // src/components/CampaignDetail.tsx - Updated
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../components/AuthContext';
-import { campaignService, Campaign } from '../services/CampaignService';
+import { campaignService, Campaign, Donation, getConfirmedRaised } from '../services/CampaignService';
+import { donationService } from '../services/DonationService';
+import { pledgeService, Pledge } from '../services/PledgeService';
+import { getRoundPhase } from '../services/FundingRoundService';
+import { wldPaymentService } from '../services/WLDPaymentService';
 import { WLDDonationForm } from '../components/WLDDonationForm';
+import { DonationStatusBadge } from '../components/DonationStatusBadge';
+import { EscrowPanel } from '../components/EscrowPanel';
+import { MatchingPanel } from '../components/MatchingPanel';
+import { RoundMatchingPanel } from '../components/RoundMatchingPanel';
+import { useEscrowState } from '../hooks/useEscrowState';
+import { useCampaignRound, useRoundResults } from '../hooks/useFundingRound';
+import { getDonorLabel, getDonationMessage } from '../utils/donorDisplay';
+import { computeMatching } from '../utils/matching';
+import { getCampaignEndDate, getSchedulePhase, isOpenForDonations } from '../utils/campaignSchedule';
+import { isGoalReached, getOverfundingPolicy } from '../utils/campaignGoal';
+import { CampaignCountdown } from '../components/CampaignCountdown';
+import { CampaignStatusBadge } from '../components/CampaignStatusBadge';
+import { MilestoneProgress, MilestoneList } from '../components/MilestoneProgress';
+import { getRewardTiers } from '../utils/rewardTiers';
+import { formatTokenAmount, progressPercent, toBigInt } from '../utils/tokenAmount';
 
 export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, walletAddress } = useAuth();
   const [campaign, setCampaign] = useState<Campaign | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const isAllOrNothing = campaign?.fundingModel === 'all_or_nothing';
+  const escrow = useEscrowState(campaign, isAllOrNothing, walletAddress);
+  // Quadratic funding round this campaign takes part in; recomputed as donations come in
+  const round = useCampaignRound(id);
+  const roundResults = useRoundResults(round, campaign?.donations.length);
+  // Pledge reminders link here with ?pledge=<id> to prefill the payment
+  const [searchParams] = useSearchParams();
+  const pledgeId = searchParams.get('pledge');
+  const [pledge, setPledge] = useState<Pledge | null>(null);
+
+  useEffect(() => {
+    if (!pledgeId || !walletAddress) {
+      setPledge(null);
+      return;
+    }
+    let cancelled = false;
+    pledgeService.fetchUserPledges(walletAddress).then(result => {
+      if (cancelled) return;
+      const match = result.pledges?.find(p => p.id === pledgeId && p.campaignId === id && p.status === 'active');
+      setPledge(match || null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pledgeId, walletAddress, id]);
 
   useEffect(() => {
     const fetchCampaign = async () => {
@@ -31,8 +76,44 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
     fetchCampaign();
   }, [id]);
 
+  // Poll pending donations until they settle, then refresh the campaign totals
+  const pendingDonationIds = (campaign?.donations || [])
+    .filter(d => d.status === 'pending')
+    .map(d => d.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!pendingDonationIds) return;
+    const controller = new AbortController();
+
+    const updateDonation = (updated: Donation) => {
+      setCampaign(prev => prev && {
+        ...prev,
+        donations: prev.donations.map(d => (d.id === updated.id ? updated : d)),
+      });
+    };
+
+    Promise.all(
+      pendingDonationIds.split(',').map(donationId =>
+        donationService.pollDonationStatus(id, donationId, {
+          signal: controller.signal,
+          onUpdate: updateDonation,
+        })
+      )
+    ).then(async () => {
+      if (controller.signal.aborted) return;
+      const result = await campaignService.fetchCampaign(id);
+      if (result.success && result.campaign) {
+        setCampaign(result.campaign);
+      }
+    });
+
+    return () => controller.abort();
+  }, [id, pendingDonationIds]);
+
   const handleDonationSuccess = async () => {
     // Refresh campaign data after successful donation
+    if (isAllOrNothing) escrow.refresh();
     try {
       const result = await campaignService.fetchCampaign(id);
       if (result.success && result.campaign) {
@@ -59,10 +140,23 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
     return <div className="text-center py-10">Campaign not found</div>;
   }
 
-  const progressPercentage = Math.min(
-    Math.round((campaign.raised / campaign.goal) * 100),
-    100
-  );
+  const raised = getConfirmedRaised(campaign);
+  // Effective total counts sponsor matches, including those the sponsor has not paid yet
+  const matching = computeMatching(campaign);
+  const effectiveRaised = raised + matching.totalMatched;
+  const progressPercentage = progressPercent(effectiveRaised, campaign.goal);
+  const isOwner = Boolean(walletAddress) && campaign.ownerId.toLowerCase() === walletAddress!.toLowerCase();
+  const goalReached = isGoalReached(campaign);
+  // Until the backend completes it, a campaign that stops at its goal is treated as closed
+  const closedAtGoal = goalReached && getOverfundingPolicy(campaign) === 'complete_at_goal';
+  // Escrow campaigns only accept donations while the escrow is open, before its deadline and
+  // on the terms the campaign shows
+  const acceptsDonations = isOpenForDonations(campaign) && !closedAtGoal &&
+    (!isAllOrNothing || (escrow.phase === 'funding' && !escrow.mismatch));
+  const schedulePhase = getSchedulePhase(campaign);
+  // Why the campaign is in its current state, as given by the owner or reviewer
+  const statusReason = [...(campaign.statusHistory || [])].reverse().find(change => change.to === campaign.status)?.reason;
+  const endDate = getCampaignEndDate(campaign);
 
   return (
     <div className="max-w-4xl mx-auto p-4">
@@ -89,14 +183,14 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
             <span>Created by: {campaign.ownerId.slice(0, 6)}...{campaign.ownerId.slice(-4)}</span>
             <span className="mx-2">•</span>
             <span>{new Date(campaign.createdAt).toLocaleDateString()}</span>
+            {endDate || campaign.startDate ? (
+              <>
+                <span className="mx-2">•</span>
+                <CampaignCountdown campaign={campaign} className="font-medium text-gray-800" />
+              </>
+            ) : null}
             <span className="mx-2">•</span>
-            <span className={`px-2 py-0.5 rounded-full text-xs ${
-              campaign.status === 'active' ? 'bg-green-100 text-green-800' :
-              campaign.status === 'completed' ? 'bg-blue-100 text-blue-800' :
-              'bg-red-100 text-red-800'
-            }`}>
-              {campaign.status.charAt(0).toUpperCase() + campaign.status.slice(1)}
-            </span>
+            <CampaignStatusBadge status={campaign.status} />
           </div>
           
           <p className="text-gray-700 mb-6 whitespace-pre-line">
@@ -104,27 +198,87 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
           </p>
           
           <div className="mb-6">
-            <h2 className="text-lg font-semibold mb-2">Funding Progress</h2>
-            <div className="w-full bg-gray-200 rounded-full h-4 mb-2">
-              <div 
-                className="bg-green-500 h-4 rounded-full" 
-                style={{ width: `${progressPercentage}%` }}
-              ></div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold">Funding Progress</h2>
+              {goalReached && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                  Goal reached · {Number((effectiveRaised * 100n) / toBigInt(campaign.goal))}% funded
+                </span>
+              )}
             </div>
+            {campaign.milestones?.length ? (
+              <MilestoneProgress campaign={campaign} raised={effectiveRaised} />
+            ) : (
+              <div className="w-full bg-gray-200 rounded-full h-4 mb-2">
+                <div 
+                  className="bg-green-500 h-4 rounded-full" 
+                  style={{ width: `${progressPercentage}%` }}
+                ></div>
+              </div>
+            )}
             
             <div className="flex justify-between text-sm font-medium">
-              <span>{campaign.raised} WLD raised</span>
-              <span>{campaign.goal} WLD goal</span>
+              <span>{formatTokenAmount(effectiveRaised)} WLD raised</span>
+              <span>{formatTokenAmount(campaign.goal)} WLD goal</span>
             </div>
+            {matching.totalMatched > 0n && (
+              <p className="mt-1 text-xs text-gray-500">
+                {formatTokenAmount(raised)} WLD from donors + {formatTokenAmount(matching.totalMatched)} WLD sponsor matches
+                {matching.totalPending > 0n && ` (${formatTokenAmount(matching.totalPending)} WLD pending)`}
+              </p>
+            )}
+            {campaign.milestones?.length ? <MilestoneList campaign={campaign} raised={effectiveRaised} /> : null}
           </div>
+
+          <MatchingPanel
+            campaign={campaign}
+            matching={matching}
+            isOwner={isOwner}
+            onPledgeAdded={handleDonationSuccess}
+          />
+
+          {round && (
+            <RoundMatchingPanel
+              campaignId={campaign.id}
+              round={round}
+              results={roundResults.results}
+              loading={roundResults.loading}
+            />
+          )}
           
-          {campaign.status === 'active' && (
+          {isAllOrNothing && (
+            <EscrowPanel
+              campaign={campaign}
+              escrow={escrow.escrow}
+              phase={escrow.phase}
+              mismatch={escrow.mismatch}
+              contribution={escrow.contribution}
+              isOwner={isOwner}
+              loading={escrow.loading}
+              error={escrow.error}
+              onRefresh={escrow.refresh}
+            />
+          )}
+          
+          {acceptsDonations && (
             <div className="border-t border-gray-200 pt-6">
-              <h2 className="text-lg font-semibold mb-4">Make a Donation</h2>
+              <h2 className="text-lg font-semibold mb-4">
+                {goalReached ? 'Support the Stretch Goal' : 'Make a Donation'}
+              </h2>
+              {goalReached && (
+                <p className="text-sm text-gray-600 mb-4">
+                  This campaign has reached its goal. Further donations go towards stretch funding.
+                </p>
+              )}
               
               {isAuthenticated ? (
                 <WLDDonationForm 
                   campaignId={id} 
+                  campaignOwnerId={campaign.ownerId}
+                  fundingModel={campaign.fundingModel}
+                  pledge={pledge}
+                  inFundingRound={round !== null && getRoundPhase(round) === 'active'}
+                  rewardTiers={getRewardTiers(campaign)}
                   onDonationSuccess={handleDonationSuccess}
                 />
               ) : (
@@ -137,25 +291,90 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
             </div>
           )}
           
+          {campaign.status === 'active' && schedulePhase !== 'open' && !closedAtGoal && (
+            <div className="border-t border-gray-200 pt-6">
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-4 text-sm text-gray-700">
+                {schedulePhase === 'upcoming'
+                  ? `Donations open on ${new Date(campaign.startDate!).toLocaleString()}.`
+                  : `This campaign ended on ${new Date(endDate!).toLocaleString()} and no longer accepts donations.`}
+              </div>
+            </div>
+          )}
+          
+          {(campaign.status === 'completed' || (campaign.status === 'active' && closedAtGoal)) && (
+            <div className="border-t border-gray-200 pt-6">
+              <div className="bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+                {goalReached
+                  ? 'Goal reached! Thank you to everyone who donated. This campaign is no longer accepting donations.'
+                  : 'This campaign has completed and no longer accepts donations.'}
+                {campaign.status === 'completed' && statusReason && (
+                  <p className="mt-1 text-green-700">Reason: {statusReason}</p>
+                )}
+              </div>
+            </div>
+          )}
+          
+          {campaign.status !== 'active' && campaign.status !== 'completed' && (
+            <div className="border-t border-gray-200 pt-6">
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-4 text-sm text-gray-700">
+                {campaign.status === 'paused'
+                  ? 'Donations to this campaign are paused.'
+                  : campaign.status === 'cancelled'
+                    ? 'This campaign was cancelled and no longer accepts donations.'
+                    : 'This campaign is not published yet.'}
+                {statusReason && <p className="mt-1 text-gray-500">Reason: {statusReason}</p>}
+              </div>
+            </div>
+          )}
+          
           {campaign.donations.length > 0 && (
             <div className="border-t border-gray-200 pt-6 mt-6">
               <h2 className="text-lg font-semibold mb-4">Recent Donations</h2>
               <div className="space-y-3">
-                {campaign.donations.map((donation) => (
-                  <div key={donation.id} className="flex justify-between items-center border-b border-gray-100 pb-2">
-                    <div>
-                      <span className="text-sm font-medium">
-                        {donation.donor.slice(0, 6)}...{donation.donor.slice(-4)}
-                      </span>
-                      <p className="text-xs text-gray-500">
-                        {new Date(donation.createdAt).toLocaleString()}
-                      </p>
+                {campaign.donations.map((donation) => {
+                  // Names and messages are rendered as plain text, never as links or markup
+                  const donationMessage = getDonationMessage(donation);
+                  const matched = matching.matchedByDonation[donation.id];
+                  return (
+                    <div key={donation.id} className="flex justify-between items-start border-b border-gray-100 pb-2">
+                      <div className="min-w-0">
+                        <span className="text-sm font-medium break-words">
+                          {getDonorLabel(donation)}
+                        </span>
+                        <DonationStatusBadge donation={donation} />
+                        <p className="text-xs text-gray-500">
+                          {new Date(donation.createdAt).toLocaleString()}
+                          {donation.txHash && wldPaymentService.getTransactionUrl(donation.txHash) && (
+                            <a
+                              href={wldPaymentService.getTransactionUrl(donation.txHash)!}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="ml-2 text-blue-600 hover:text-blue-800"
+                            >
+                              View tx
+                            </a>
+                          )}
+                        </p>
+                        {donationMessage && (
+                          <p className="mt-1 text-sm text-gray-700 whitespace-pre-line break-words">
+                            {donationMessage}
+                          </p>
+                        )}
+                        {donation.messageHidden && (
+                          <p className="mt-1 text-xs italic text-gray-400">Message hidden by moderators</p>
+                        )}
+                      </div>
+                      <div className="ml-4 flex-shrink-0 text-right">
+                        <span className={`font-medium ${donation.status === 'confirmed' ? 'text-green-600' : 'text-gray-400'}`}>
+                          {formatTokenAmount(donation.amount)} WLD
+                        </span>
+                        {matched !== undefined && (
+                          <p className="text-xs text-amber-700">+{formatTokenAmount(matched)} matched</p>
+                        )}
+                      </div>
                     </div>
-                    <span className="font-medium text-green-600">
-                      {donation.amount} WLD
-                    </span>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
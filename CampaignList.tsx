@@ -1,7 +1,36 @@
 // src/components/CampaignList.tsx
 import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { campaignService, Campaign } from '../services/CampaignService';
+import { campaignService, Campaign, OverfundingPolicy } from '../services/CampaignService';
+import { wldPaymentService } from '../services/WLDPaymentService';
+import { useDonationPipeline } from '../hooks/useDonationPipeline';
+import { DonationStatusBadge } from './DonationStatusBadge';
+import { getDonorLabel } from '../utils/donorDisplay';
+import { getEffectiveRaised } from '../utils/matching';
+import { CampaignCountdown } from './CampaignCountdown';
+import { CampaignStatusBadge } from './CampaignStatusBadge';
+import { MilestoneProgress, MilestoneList } from './MilestoneProgress';
+import { MilestonesEditor } from './MilestonesEditor';
+import { MilestoneInput, parseMilestoneInputs, toMilestoneInputs } from '../utils/milestones';
+import { RewardTiersEditor } from './RewardTiersEditor';
+import { RewardTierInput, getRewardClaims, parseRewardTierInputs, toRewardTierInputs } from '../utils/rewardTiers';
+import {
+  getCampaignEndDate,
+  getSchedulePhase,
+  isOpenForDonations,
+  toDateTimeInput,
+  fromDateTimeInput,
+} from '../utils/campaignSchedule';
+import {
+  formatTokenAmount,
+  formatUnits,
+  isDecimalInput,
+  progressPercent,
+  tryParseTokenAmount,
+} from '../utils/tokenAmount';
+
+// Drafts and campaigns awaiting review are only visible to their owners
+const isListed = (campaign: Campaign) => campaign.status !== 'draft' && campaign.status !== 'pending_review';
 
 export const CampaignList: React.FC = () => {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
@@ -41,13 +70,13 @@ export const CampaignList: React.FC = () => {
     );
   }
 
-  if (campaigns.length === 0) {
+  if (!campaigns.some(isListed)) {
     return <div className="text-center py-10">No campaigns found. Create one!</div>;
   }
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {campaigns.map((campaign) => (
+      {campaigns.filter(isListed).map((campaign) => (
         <CampaignCard key={campaign.id} campaign={campaign} />
       ))}
     </div>
@@ -56,10 +85,8 @@ export const CampaignList: React.FC = () => {
 
 // src/components/CampaignCard.tsx
 export const CampaignCard: React.FC<{ campaign: Campaign }> = ({ campaign }) => {
-  const progressPercentage = Math.min(
-    Math.round((campaign.raised / campaign.goal) * 100),
-    100
-  );
+  const raised = getEffectiveRaised(campaign);
+  const progressPercentage = progressPercent(raised, campaign.goal);
 
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow">
@@ -84,22 +111,28 @@ export const CampaignCard: React.FC<{ campaign: Campaign }> = ({ campaign }) =>
           {campaign.description || 'No description provided.'}
         </p>
         
-        <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
-          <div 
-            className="bg-green-500 h-2 rounded-full" 
-            style={{ width: `${progressPercentage}%` }}
-          ></div>
-        </div>
+        {campaign.milestones?.length ? (
+          <MilestoneProgress campaign={campaign} raised={raised} compact />
+        ) : (
+          <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+            <div 
+              className="bg-green-500 h-2 rounded-full" 
+              style={{ width: `${progressPercentage}%` }}
+            ></div>
+          </div>
+        )}
         
         <div className="flex justify-between text-sm text-gray-700 mb-3">
-          <span>{campaign.raised} / {campaign.goal} WLD</span>
+          <span>{formatTokenAmount(raised)} / {formatTokenAmount(campaign.goal)} WLD</span>
           <span>{progressPercentage}%</span>
         </div>
         
         <div className="flex justify-between items-center">
-          <div className="text-xs text-gray-500">
-            {new Date(campaign.createdAt).toLocaleDateString()}
-          </div>
+          <CampaignCountdown
+            campaign={campaign}
+            className="text-xs text-gray-500"
+            fallback={<div className="text-xs text-gray-500">{new Date(campaign.createdAt).toLocaleDateString()}</div>}
+          />
           <Link 
             to={`/campaigns/${campaign.id}`}
             className="px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
@@ -117,10 +150,10 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
   const [campaign, setCampaign] = useState<Campaign | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [donationAmount, setDonationAmount] = useState<number>(0);
+  const [donationAmount, setDonationAmount] = useState<string>('');
   const [donationTxHash, setDonationTxHash] = useState<string>('');
-  const [donating, setDonating] = useState(false);
-  const [donationSuccess, setDonationSuccess] = useState(false);
+  const { state: donationState, busy: donating, submitManual } = useDonationPipeline(id);
+  const donationSuccess = donationState === 'pending_confirmation' || donationState === 'confirmed';
 
   useEffect(() => {
     const fetchCampaign = async () => {
@@ -146,7 +179,8 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
   const handleDonate = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!donationAmount || donationAmount <= 0) {
+    const amountValue = tryParseTokenAmount(donationAmount);
+    if (amountValue === null || amountValue <= 0n) {
       alert('Please enter a valid donation amount');
       return;
     }
@@ -156,18 +190,11 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
       return;
     }
 
-    setDonating(true);
-    
     try {
-      const result = await campaignService.recordDonation(
-        id, 
-        donationAmount,
-        donationTxHash
-      );
+      const { campaignAddress } = await wldPaymentService.getDonationInstructions(id);
+      const result = await submitManual(amountValue.toString(), donationTxHash, campaignAddress);
       
-      if (result.success) {
-        setDonationSuccess(true);
-        
+      if (result.state !== 'failed') {
         // Refresh campaign data
         const refreshResult = await campaignService.fetchCampaign(id);
         if (refreshResult.success && refreshResult.campaign) {
@@ -175,7 +202,7 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
         }
         
         // Reset form
-        setDonationAmount(0);
+        setDonationAmount('');
         setDonationTxHash('');
       } else {
         alert(result.error || 'Failed to process donation');
@@ -183,8 +210,6 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
     } catch (err: any) {
       console.error('Error processing donation:', err);
       alert(err.message || 'An error occurred');
-    } finally {
-      setDonating(false);
     }
   };
 
@@ -204,10 +229,8 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
     return <div className="text-center py-10">Campaign not found</div>;
   }
 
-  const progressPercentage = Math.min(
-    Math.round((campaign.raised / campaign.goal) * 100),
-    100
-  );
+  const raised = getEffectiveRaised(campaign);
+  const progressPercentage = progressPercent(raised, campaign.goal);
 
   return (
     <div className="max-w-4xl mx-auto p-4">
@@ -234,14 +257,14 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
             <span>Created by: {campaign.ownerId.slice(0, 6)}...{campaign.ownerId.slice(-4)}</span>
             <span className="mx-2">•</span>
             <span>{new Date(campaign.createdAt).toLocaleDateString()}</span>
+            {getCampaignEndDate(campaign) || campaign.startDate ? (
+              <>
+                <span className="mx-2">•</span>
+                <CampaignCountdown campaign={campaign} />
+              </>
+            ) : null}
             <span className="mx-2">•</span>
-            <span className={`px-2 py-0.5 rounded-full text-xs ${
-              campaign.status === 'active' ? 'bg-green-100 text-green-800' :
-              campaign.status === 'completed' ? 'bg-blue-100 text-blue-800' :
-              'bg-red-100 text-red-800'
-            }`}>
-              {campaign.status.charAt(0).toUpperCase() + campaign.status.slice(1)}
-            </span>
+            <CampaignStatusBadge status={campaign.status} />
           </div>
           
           <p className="text-gray-700 mb-6 whitespace-pre-line">
@@ -250,20 +273,25 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
           
           <div className="mb-6">
             <h2 className="text-lg font-semibold mb-2">Funding Progress</h2>
-            <div className="w-full bg-gray-200 rounded-full h-4 mb-2">
-              <div 
-                className="bg-green-500 h-4 rounded-full" 
-                style={{ width: `${progressPercentage}%` }}
-              ></div>
-            </div>
+            {campaign.milestones?.length ? (
+              <MilestoneProgress campaign={campaign} raised={raised} />
+            ) : (
+              <div className="w-full bg-gray-200 rounded-full h-4 mb-2">
+                <div 
+                  className="bg-green-500 h-4 rounded-full" 
+                  style={{ width: `${progressPercentage}%` }}
+                ></div>
+              </div>
+            )}
             
             <div className="flex justify-between text-sm font-medium">
-              <span>{campaign.raised} WLD raised</span>
-              <span>{campaign.goal} WLD goal</span>
+              <span>{formatTokenAmount(raised)} WLD raised</span>
+              <span>{formatTokenAmount(campaign.goal)} WLD goal</span>
             </div>
+            {campaign.milestones?.length ? <MilestoneList campaign={campaign} raised={raised} /> : null}
           </div>
           
-          {campaign.status === 'active' && (
+          {isOpenForDonations(campaign) && (
             <div className="border-t border-gray-200 pt-6">
               <h2 className="text-lg font-semibold mb-4">Make a Donation</h2>
               
@@ -279,14 +307,13 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
                     Amount (WLD)
                   </label>
                   <input
-                    type="number"
+                    type="text"
+                    inputMode="decimal"
                     id="amount"
-                    value={donationAmount || ''}
-                    onChange={(e) => setDonationAmount(Number(e.target.value))}
+                    value={donationAmount}
+                    onChange={(e) => isDecimalInput(e.target.value) && setDonationAmount(e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     placeholder="Enter amount"
-                    min="0.01"
-                    step="0.01"
                     required
                   />
                 </div>
@@ -329,15 +356,16 @@ export const CampaignDetail: React.FC<{ id: string }> = ({ id }) => {
                 {campaign.donations.map((donation) => (
                   <div key={donation.id} className="flex justify-between items-center border-b border-gray-100 pb-2">
                     <div>
-                      <span className="text-sm font-medium">
-                        {donation.donor.slice(0, 6)}...{donation.donor.slice(-4)}
+                      <span className="text-sm font-medium break-words">
+                        {getDonorLabel(donation)}
                       </span>
+                      <DonationStatusBadge donation={donation} />
                       <p className="text-xs text-gray-500">
                         {new Date(donation.createdAt).toLocaleString()}
                       </p>
                     </div>
-                    <span className="font-medium text-green-600">
-                      {donation.amount} WLD
+                    <span className={`font-medium ${donation.status === 'confirmed' ? 'text-green-600' : 'text-gray-400'}`}>
+                      {formatTokenAmount(donation.amount)} WLD
                     </span>
                   </div>
                 ))}
@@ -359,13 +387,19 @@ export const EditCampaignForm: React.FC<{ id: string }> = ({ id }) => {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
+  const isAllOrNothing = campaign?.fundingModel === 'all_or_nothing';
+  const [milestoneInputs, setMilestoneInputs] = useState<MilestoneInput[]>([]);
+  const [rewardTierInputs, setRewardTierInputs] = useState<RewardTierInput[]>([]);
   
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    goal: 0,
+    goal: '',
+    minAmount: '',
     image: '',
-    status: ''
+    startDate: '',
+    endDate: '',
+    overfundingPolicy: 'allow_stretch' as OverfundingPolicy,
   });
 
   useEffect(() => {
@@ -378,10 +412,15 @@ export const EditCampaignForm: React.FC<{ id: string }> = ({ id }) => {
           setFormData({
             title: result.campaign.title,
             description: result.campaign.description,
-            goal: result.campaign.goal,
+            goal: formatUnits(result.campaign.goal),
+            minAmount: result.campaign.minAmount ? formatUnits(result.campaign.minAmount) : '',
             image: result.campaign.image || '',
-            status: result.campaign.status
+            startDate: toDateTimeInput(result.campaign.startDate),
+            endDate: toDateTimeInput(getCampaignEndDate(result.campaign)),
+            overfundingPolicy: result.campaign.overfundingPolicy ?? 'allow_stretch',
           });
+          setMilestoneInputs(toMilestoneInputs(result.campaign.milestones));
+          setRewardTierInputs(toRewardTierInputs(result.campaign.rewardTiers));
         } else {
           setError(result.error || 'Failed to load campaign');
         }
@@ -397,21 +436,86 @@ export const EditCampaignForm: React.FC<{ id: string }> = ({ id }) => {
   }, [id]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value, type } = e.target;
+    const { name, value } = e.target;
+    // Goal is kept as the typed decimal string and converted to base units on submit
+    if ((name === 'goal' || name === 'minAmount') && !isDecimalInput(value)) return;
     setFormData({
       ...formData,
-      [name]: type === 'number' ? parseFloat(value) : value
+      [name]: value
     });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    
+    const goalValue = tryParseTokenAmount(formData.goal);
+    if (goalValue === null || goalValue <= 0n) {
+      setError('Funding goal must be greater than 0');
+      return;
+    }
+
+    const minAmountValue = formData.minAmount ? tryParseTokenAmount(formData.minAmount) : null;
+    if (formData.minAmount && (minAmountValue === null || minAmountValue <= 0n || minAmountValue > goalValue)) {
+      setError('Minimum donation must be greater than 0 and no more than the goal');
+      return;
+    }
+
+    const startDate = fromDateTimeInput(formData.startDate);
+    const endDate = fromDateTimeInput(formData.endDate);
+    if (startDate && endDate && endDate <= startDate) {
+      setError('The end date must be after the launch date');
+      return;
+    }
+
+    const { milestones, error: milestoneError } = parseMilestoneInputs(milestoneInputs);
+    if (milestoneError) {
+      setError(milestoneError);
+      return;
+    }
+
+    const { rewardTiers, error: rewardError } = parseRewardTierInputs(rewardTierInputs);
+    if (rewardError) {
+      setError(rewardError);
+      return;
+    }
+    if (minAmountValue !== null && rewardTiers?.some(tier => BigInt(tier.minAmount) < minAmountValue)) {
+      setError('Reward minimums cannot be below the minimum donation');
+      return;
+    }
+    // Donors who already chose a reward keep it, so claimed tiers stay and cannot shrink below their claims
+    for (const { tier, donations } of campaign ? getRewardClaims(campaign) : []) {
+      if (donations.length === 0) continue;
+      const edited = rewardTiers?.find(t => t.id === tier.id);
+      if (!edited) {
+        setError(`"${tier.title}" has been claimed by donors and cannot be removed`);
+        return;
+      }
+      if (edited.quantity !== undefined && edited.quantity < donations.length) {
+        setError(`"${tier.title}" already has ${donations.length} claims; its quantity cannot be lower`);
+        return;
+      }
+    }
+    
     setSubmitting(true);
     
     try {
-      const result = await campaignService.updateCampaign(id, formData);
+      const result = await campaignService.updateCampaign(id, {
+        ...formData,
+        // The escrow's goal is fixed on-chain too, and decides claim or refund
+        goal: isAllOrNothing && campaign ? campaign.goal : goalValue.toString(),
+        minAmount: minAmountValue?.toString(),
+        milestones,
+        rewardTiers,
+        startDate: startDate?.toISOString(),
+        // The escrow deadline is fixed on-chain, so all-or-nothing end dates cannot move
+        endDate: isAllOrNothing ? campaign?.endDate : endDate?.toISOString(),
+      });
       
       if (result.success) {
+        // Switching to complete_at_goal on a funded campaign completes it straight away
+        if (formData.overfundingPolicy === 'complete_at_goal') {
+          await campaignService.checkGoal(id);
+        }
         navigate(`/campaigns/${id}`);
       } else {
         setError(result.error || 'Failed to update campaign');
@@ -440,6 +544,8 @@ export const EditCampaignForm: React.FC<{ id: string }> = ({ id }) => {
     return <div className="text-center py-10">Campaign not found</div>;
   }
 
+  const started = getSchedulePhase(campaign) !== 'upcoming';
+
   return (
     <div className="max-w-2xl mx-auto p-6 bg-white rounded-lg shadow-md">
       <h2 className="text-2xl font-bold mb-6">Edit Campaign</h2>
@@ -479,14 +585,32 @@ export const EditCampaignForm: React.FC<{ id: string }> = ({ id }) => {
             Funding Goal (WLD)
           </label>
           <input
-            type="number"
+            type="text"
+            inputMode="decimal"
             id="goal"
             name="goal"
             value={formData.goal}
             onChange={handleChange}
-            min="1"
-            step="0.01"
             required
+            disabled={isAllOrNothing}
+            className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+          />
+          {isAllOrNothing && (
+            <p className="mt-1 text-xs text-gray-500">This is the escrow goal and cannot be changed.</p>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="minAmount" className="block text-gray-700 text-sm font-bold mb-2">
+            Minimum Donation (WLD, optional)
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            id="minAmount"
+            name="minAmount"
+            value={formData.minAmount}
+            onChange={handleChange}
             className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
           />
         </div>
@@ -505,24 +629,77 @@ export const EditCampaignForm: React.FC<{ id: string }> = ({ id }) => {
           />
         </div>
 
-        <div className="mb-6">
-          <label htmlFor="status" className="block text-gray-700 text-sm font-bold mb-2">
-            Status
+        <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="startDate" className="block text-gray-700 text-sm font-bold mb-2">
+              Launch Date
+            </label>
+            <input
+              type="datetime-local"
+              id="startDate"
+              name="startDate"
+              value={formData.startDate}
+              onChange={handleChange}
+              disabled={started}
+              className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+            />
+            {started && (
+              <p className="mt-1 text-xs text-gray-500">Donations have already opened.</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="endDate" className="block text-gray-700 text-sm font-bold mb-2">
+              End Date
+            </label>
+            <input
+              type="datetime-local"
+              id="endDate"
+              name="endDate"
+              value={formData.endDate}
+              onChange={handleChange}
+              disabled={isAllOrNothing}
+              className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+            />
+            {isAllOrNothing && (
+              <p className="mt-1 text-xs text-gray-500">This is the escrow deadline and cannot be changed.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <span className="block text-gray-700 text-sm font-bold mb-2">Milestones</span>
+          <MilestonesEditor value={milestoneInputs} onChange={setMilestoneInputs} />
+        </div>
+
+        <div className="mb-4">
+          <span className="block text-gray-700 text-sm font-bold mb-2">Reward Tiers</span>
+          <RewardTiersEditor value={rewardTierInputs} onChange={setRewardTierInputs} />
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="overfundingPolicy" className="block text-gray-700 text-sm font-bold mb-2">
+            When the Goal Is Reached
           </label>
           <select
-            id="status"
-            name="status"
-            value={formData.status}
+            id="overfundingPolicy"
+            name="overfundingPolicy"
+            value={formData.overfundingPolicy}
             onChange={handleChange}
-            required
             className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
           >
-            <option value="active">Active</option>
-            <option value="completed">Completed</option>
-            <option value="cancelled">Cancelled</option>
+            <option value="allow_stretch">Keep accepting donations as stretch funding</option>
+            <option value="complete_at_goal">Complete the campaign and stop accepting donations</option>
           </select>
         </div>
 
+        <div className="mb-6">
+          <span className="block text-gray-700 text-sm font-bold mb-2">Status</span>
+          <CampaignStatusBadge status={campaign.status} />
+          <p className="mt-1 text-xs text-gray-500">
+            Pause, complete or cancel the campaign from the <Link to="/dashboard" className="text-blue-600 hover:text-blue-800">dashboard</Link>.
+          </p>
+        </div>
+
         <div className="flex gap-4">
           <button
             type="submit"
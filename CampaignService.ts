@@ -1,35 +1,199 @@
 // src/services/CampaignService.ts
 
 import { authService } from './AuthService';
+import { TokenAmount, sumAmounts } from '../utils/tokenAmount';
 
+export type DonationStatus = 'pending' | 'confirmed' | 'failed';
+
+// 'username' shows the World App username, 'custom' a name the donor typed
+export type DonorDisplayMode = 'username' | 'custom' | 'anonymous';
+
+// All amounts are WLD base units (18 decimals) as decimal strings
 export interface Donation {
   id: string;
-  amount: number;
+  amount: TokenAmount;
   donor: string;
   txHash: string;
   createdAt: string;
   currency: 'WLD';
+  status: DonationStatus;
+  confirmations?: number;
+  // Public attribution chosen by the donor; missing on older donations
+  displayMode?: DonorDisplayMode;
+  displayName?: string;
+  message?: string;
+  // Set by backend moderation; the message is kept but not shown publicly
+  messageHidden?: boolean;
+  // Present when the donation was a payment against a recurring pledge
+  pledgeId?: string;
+  // World ID nullifier of a verified donor; used to count unique humans in funding rounds
+  nullifierHash?: string;
+  // Optional platform tip paid alongside the donation. It is a separate transfer to the
+  // platform and is not part of amount, so it never counts towards the campaign total.
+  tipPercent?: number;
+  tipAmount?: TokenAmount;
+  tipTxHash?: string;
+  // Reward tier the donor chose, and when the owner marked the reward as sent
+  rewardTierId?: string;
+  rewardFulfilledAt?: string;
+}
+
+// A sponsor's promise to add ratio × each eligible donation, up to cap, until expiresAt
+export interface MatchingPledge {
+  id: string;
+  sponsorName: string;
+  sponsorAddress?: string;
+  // 1 matches 1:1, 0.5 adds half of each donation, 2 doubles it
+  ratio: number;
+  cap: TokenAmount;
+  expiresAt: string;
+  createdAt: string;
+  // Matches the sponsor has already paid to the campaign
+  paidAmount?: TokenAmount;
+}
+
+export interface MatchingPledgePayload {
+  sponsorName: string;
+  sponsorAddress?: string;
+  ratio: number;
+  cap: TokenAmount;
+  expiresAt: string;
+}
+
+// Lifecycle: draft → pending_review → active ⇄ paused → completed | cancelled.
+// Only active campaigns accept donations; completed and cancelled are final.
+export type CampaignStatus = 'draft' | 'pending_review' | 'active' | 'paused' | 'completed' | 'cancelled';
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  draft: 'Draft',
+  pending_review: 'In review',
+  active: 'Active',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const CAMPAIGN_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  draft: ['pending_review', 'cancelled'],
+  // Reviewers approve (active) or send back (draft); owners may also withdraw to draft
+  pending_review: ['active', 'draft', 'cancelled'],
+  active: ['paused', 'completed', 'cancelled'],
+  paused: ['active', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// Transitions only a platform reviewer may make. Reviewers work in the backend's tooling, so the
+// app never offers these; a campaign in review waits there until it is approved or sent back.
+const REVIEWER_TRANSITIONS: Array<[CampaignStatus, CampaignStatus]> = [['pending_review', 'active']];
+
+// Donors see these on the campaign page, so the owner must say why
+export const REASON_REQUIRED: CampaignStatus[] = ['paused', 'cancelled'];
+
+export interface CampaignStatusChange {
+  from: CampaignStatus;
+  to: CampaignStatus;
+  reason?: string;
+  changedAt: string;
+  // Wallet of the owner or reviewer who made the change
+  changedBy?: string;
+}
+
+/** Whether the campaign owner may make this change from the app */
+export const canTransition = (from: CampaignStatus, to: CampaignStatus): boolean =>
+  CAMPAIGN_TRANSITIONS[from].includes(to) &&
+  !REVIEWER_TRANSITIONS.some(([f, t]) => f === from && t === to);
+
+export const getAllowedTransitions = (from: CampaignStatus): CampaignStatus[] =>
+  CAMPAIGN_TRANSITIONS[from].filter(to => canTransition(from, to));
+
+// A funding level and what it unlocks; a campaign's milestones are kept sorted by amount
+export interface CampaignMilestone {
+  amount: TokenAmount;
+  title: string;
+  description?: string;
 }
 
+// A reward for donors giving at least minAmount. quantity limits how many can be claimed;
+// remaining is maintained by the backend, which reserves a unit when a payment intent is created.
+export interface RewardTier {
+  id: string;
+  minAmount: TokenAmount;
+  title: string;
+  description?: string;
+  quantity?: number;
+  remaining?: number;
+}
+
+// Tiers sent when creating or editing a campaign; new tiers have no id yet
+export type RewardTierPayload = Omit<RewardTier, 'id' | 'remaining'> & { id?: string };
+
+// 'direct' pays the payout address immediately; 'all_or_nothing' holds donations in escrow
+export type FundingModel = 'direct' | 'all_or_nothing';
+
+// What happens once raised reaches the goal: stop and complete, or keep taking stretch funding
+export type OverfundingPolicy = 'complete_at_goal' | 'allow_stretch';
+
 export interface Campaign {
   id: string;
   title: string;
   description: string;
-  goal: number;
-  raised: number;
+  goal: TokenAmount;
+  raised: TokenAmount;
+  // EIP-55 checksummed address that receives donations
+  payoutAddress: string;
+  // Smallest accepted donation; the platform default applies when unset
+  minAmount?: TokenAmount;
+  fundingModel?: FundingModel;
+  // Defaults to allow_stretch, which is how campaigns behaved before the policy existed
+  overfundingPolicy?: OverfundingPolicy;
+  milestones?: CampaignMilestone[];
+  rewardTiers?: RewardTier[];
+  // Donations are accepted from startDate until endDate (ISO); either may be open-ended
+  startDate?: string;
+  endDate?: string;
+  // All-or-nothing only: the goal must be met by this time (ISO) or donors are refunded.
+  // Set to endDate when the campaign is created; campaigns from before endDate only have this.
+  escrowDeadline?: string;
   ownerId: string;
   image?: string;
-  status: 'active' | 'completed' | 'cancelled';
+  status: CampaignStatus;
+  // Oldest first; missing on campaigns created before the lifecycle was recorded
+  statusHistory?: CampaignStatusChange[];
   createdAt: string;
   updatedAt: string;
   donations: Donation[];
+  matchingPledges?: MatchingPledge[];
   currency: 'WLD';
 }
 
+// A donation as seen from the donor's side, with the campaign it went to
+export interface UserDonation extends Donation {
+  campaignId: string;
+  campaignTitle: string;
+}
+
+/** Sum of confirmed donations; pending and failed donations do not count towards raised */
+export const getConfirmedRaised = (campaign: Campaign): bigint =>
+  sumAmounts(
+    (campaign.donations || [])
+      .filter(d => (d.status ?? 'confirmed') === 'confirmed')
+      .map(d => d.amount)
+  );
+
 export interface CampaignPayload {
   title: string;
   description?: string;
-  goal: number;
+  goal: TokenAmount;
+  payoutAddress: string;
+  minAmount?: TokenAmount;
+  fundingModel?: FundingModel;
+  overfundingPolicy?: OverfundingPolicy;
+  milestones?: CampaignMilestone[];
+  rewardTiers?: RewardTierPayload[];
+  startDate?: string;
+  endDate?: string;
+  escrowDeadline?: string;
   image?: string;
 }
 
@@ -77,16 +241,17 @@ class CampaignService {
     return headers;
   }
 
-  /** Create a new campaign */
+  /** Create a new campaign, saved as a draft or submitted straight for review */
   public async createCampaign(
-    payload: CampaignPayload
+    payload: CampaignPayload,
+    initialStatus: 'draft' | 'pending_review' = 'pending_review'
   ): Promise<{ success: boolean; id?: string; error?: string }> {
     try {
       const headers = await this.getHeaders();
       const res = await fetch(`${this.API_BASE}/campaigns`, {
         method: 'POST',
         headers,
-        body: JSON.stringify(payload),
+        body: JSON.stringify({ ...payload, status: initialStatus }),
       });
       const body = await res.json().catch(() => ({}));
       if (!res.ok) {
@@ -162,6 +327,118 @@ class CampaignService {
     }
   }
 
+  /**
+   * Move a campaign through its lifecycle. The transition is checked against the
+   * campaign's current status; the backend records it with the reason and time.
+   */
+  public async changeStatus(
+    id: string,
+    to: CampaignStatus,
+    reason?: string
+  ): Promise<{ success: boolean; campaign?: Campaign; error?: string }> {
+    try {
+      const current = await this.fetchCampaign(id);
+      if (!current.success || !current.campaign) {
+        throw new Error(current.error || 'Campaign not found');
+      }
+      const from = current.campaign.status;
+      if (!canTransition(from, to)) {
+        throw new Error(`A campaign cannot move from ${CAMPAIGN_STATUS_LABELS[from]} to ${CAMPAIGN_STATUS_LABELS[to]}`);
+      }
+      const trimmedReason = reason?.trim() || undefined;
+      if (REASON_REQUIRED.includes(to) && !trimmedReason) {
+        throw new Error('Please give a reason for this change');
+      }
+
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/campaigns/${id}/status`, {
+        method: 'POST',
+        headers,
+        // from lets the backend reject the change if the status moved in the meantime
+        body: JSON.stringify({ from, to, reason: trimmedReason }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to change campaign status (${res.status})`);
+      }
+      return { success: true, campaign: body as Campaign };
+    } catch (error: any) {
+      console.error('[CampaignService] changeStatus error:', error);
+      return { success: false, error: error.message || 'Failed to change campaign status' };
+    }
+  }
+
+  /**
+   * Ask the backend to re-evaluate the goal after a donation is recorded. It completes
+   * active complete_at_goal campaigns that have reached their goal, recording the change
+   * in statusHistory; anyone may call it since the backend decides from its own totals.
+   */
+  public async checkGoal(
+    id: string
+  ): Promise<{ success: boolean; campaign?: Campaign; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/campaigns/${id}/goal-check`, {
+        method: 'POST',
+        headers,
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to check campaign goal (${res.status})`);
+      }
+      return { success: true, campaign: body as Campaign };
+    } catch (error: any) {
+      console.error('[CampaignService] checkGoal error:', error);
+      return { success: false, error: error.message || 'Failed to check campaign goal' };
+    }
+  }
+
+  /** Mark a donation's reward as sent, or clear the mark (owner only) */
+  public async setRewardFulfilled(
+    campaignId: string,
+    donationId: string,
+    fulfilled: boolean
+  ): Promise<{ success: boolean; donation?: Donation; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/campaigns/${campaignId}/donations/${donationId}/reward-fulfilment`, {
+        method: fulfilled ? 'POST' : 'DELETE',
+        headers,
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to update reward fulfilment (${res.status})`);
+      }
+      return { success: true, donation: body as Donation };
+    } catch (error: any) {
+      console.error('[CampaignService] setRewardFulfilled error:', error);
+      return { success: false, error: error.message || 'Failed to update reward fulfilment' };
+    }
+  }
+
+  /** Attach a sponsor's matching pledge to a campaign (owner only) */
+  public async addMatchingPledge(
+    campaignId: string,
+    payload: MatchingPledgePayload
+  ): Promise<{ success: boolean; pledge?: MatchingPledge; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/campaigns/${campaignId}/matching-pledges`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to add matching pledge (${res.status})`);
+      }
+      return { success: true, pledge: body as MatchingPledge };
+    } catch (error: any) {
+      console.error('[CampaignService] addMatchingPledge error:', error);
+      return { success: false, error: error.message || 'Failed to add matching pledge' };
+    }
+  }
+
   /** Delete a campaign by ID */
   public async deleteCampaign(
     id: string
@@ -183,27 +460,25 @@ class CampaignService {
     }
   }
 
-  /** Record a donation for a campaign */
-  public async recordDonation(
+  /** Fetch a single donation, used to track its confirmation status */
+  public async fetchDonation(
     campaignId: string,
-    amount: number,
-    txHash: string
-  ): Promise<{ success: boolean; error?: string }> {
+    donationId: string
+  ): Promise<{ success: boolean; donation?: Donation; error?: string }> {
     try {
       const headers = await this.getHeaders();
-      const res = await fetch(`${this.API_BASE}/campaigns/${campaignId}/donate`, {
-        method: 'POST',
+      const res = await fetch(`${this.API_BASE}/campaigns/${campaignId}/donations/${donationId}`, {
+        method: 'GET',
         headers,
-        body: JSON.stringify({ amount, txHash }),
       });
-      const body = await res.json().catch(() => ({}));
       if (!res.ok) {
-        throw new Error((body as any).message || `Failed to record donation (${res.status})`);
+        throw new Error(`Donation not found (${res.status})`);
       }
-      return { success: true };
+      const donation = await res.json();
+      return { success: true, donation };
     } catch (error: any) {
-      console.error('[CampaignService] recordDonation error:', error);
-      return { success: false, error: error.message || 'Failed to record donation' };
+      console.error('[CampaignService] fetchDonation error:', error);
+      return { success: false, error: error.message || 'Failed to fetch donation' };
     }
   }
 
@@ -227,6 +502,27 @@ class CampaignService {
       return { success: false, error: error.message || 'Failed to fetch user campaigns' };
     }
   }
+
+  /** Fetch every donation made by a wallet, across campaigns */
+  public async fetchUserDonations(
+    walletAddress: string
+  ): Promise<{ success: boolean; donations?: UserDonation[]; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/users/${walletAddress}/donations`, {
+        method: 'GET',
+        headers,
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to fetch donations (${res.status})`);
+      }
+      const data = await res.json();
+      return { success: true, donations: data.donations || [] };
+    } catch (error: any) {
+      console.error('[CampaignService] fetchUserDonations error:', error);
+      return { success: false, error: error.message || 'Failed to fetch donations' };
+    }
+  }
 }
 
 export const campaignService = CampaignService.getInstance();
@@ -0,0 +1,21 @@
+// src/components/CampaignStatusBadge.tsx
+import React from 'react';
+import { CampaignStatus, CAMPAIGN_STATUS_LABELS } from '../services/CampaignService';
+
+const STATUS_COLORS: Record<CampaignStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  pending_review: 'bg-purple-100 text-purple-800',
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export const CampaignStatusBadge: React.FC<{ status: CampaignStatus; className?: string }> = ({
+  status,
+  className = 'px-2 py-0.5 rounded-full text-xs',
+}) => (
+  <span className={`${className} ${STATUS_COLORS[status] ?? STATUS_COLORS.draft}`}>
+    {CAMPAIGN_STATUS_LABELS[status] ?? status}
+  </span>
+);
@@ -0,0 +1,137 @@
+// src/components/CampaignStatusPanel.tsx
+import React, { useState } from 'react';
+import {
+  campaignService,
+  Campaign,
+  CampaignStatus,
+  CAMPAIGN_STATUS_LABELS,
+  REASON_REQUIRED,
+  getAllowedTransitions,
+} from '../services/CampaignService';
+import { CampaignStatusBadge } from './CampaignStatusBadge';
+
+// Owner-facing wording for each target status
+const ACTION_LABELS: Record<CampaignStatus, string> = {
+  draft: 'Move back to draft',
+  pending_review: 'Submit for review',
+  active: 'Resume donations',
+  paused: 'Pause donations',
+  completed: 'Mark as completed',
+  cancelled: 'Cancel campaign',
+};
+
+interface CampaignStatusPanelProps {
+  campaign: Campaign;
+  onChanged?: () => void;
+}
+
+export const CampaignStatusPanel: React.FC<CampaignStatusPanelProps> = ({ campaign, onChanged }) => {
+  const [target, setTarget] = useState<CampaignStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const transitions = getAllowedTransitions(campaign.status);
+  const history = [...(campaign.statusHistory || [])].reverse();
+  const needsReason = target !== null && REASON_REQUIRED.includes(target);
+
+  const handleConfirm = async () => {
+    if (!target) return;
+    if (needsReason && !reason.trim()) {
+      setError('Please give a reason for this change');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    const result = await campaignService.changeStatus(campaign.id, target, reason);
+    setSaving(false);
+    if (result.success) {
+      setTarget(null);
+      setReason('');
+      onChanged?.();
+    } else {
+      setError(result.error || 'Failed to change campaign status');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow mt-6">
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold text-gray-800">Status: {campaign.title}</h2>
+        <p className="text-sm text-gray-500">
+          Currently <CampaignStatusBadge status={campaign.status} />
+          {campaign.status === 'pending_review' && ' A reviewer will approve the campaign before it goes live.'}
+        </p>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {transitions.length === 0 ? (
+          <p className="text-sm text-gray-500">This campaign is closed and its status can no longer change.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {transitions.map(to => (
+              <button
+                key={to}
+                onClick={() => {
+                  setTarget(target === to ? null : to);
+                  setError(null);
+                }}
+                className={`px-3 py-1 rounded-md text-sm border ${
+                  target === to
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : to === 'cancelled'
+                      ? 'text-red-700 border-red-300 hover:bg-red-50'
+                      : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {ACTION_LABELS[to]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {target && (
+          <div className="space-y-2">
+            <label className="block text-xs text-gray-500">
+              Reason{needsReason ? '' : ' (optional)'}
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              maxLength={500}
+              placeholder={needsReason ? 'Shown to donors on the campaign page' : ''}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            {target === 'cancelled' && (
+              <p className="text-xs text-red-600">Cancelling is permanent. The campaign will stop accepting donations.</p>
+            )}
+            <button
+              onClick={handleConfirm}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              {saving ? 'Saving...' : `Confirm: ${CAMPAIGN_STATUS_LABELS[target]}`}
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {history.length > 0 && (
+          <div className="pt-2">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">History</h3>
+            <ul className="space-y-1 text-xs text-gray-600">
+              {history.map((change, index) => (
+                <li key={`${change.changedAt}-${index}`}>
+                  {new Date(change.changedAt).toLocaleString()}: {CAMPAIGN_STATUS_LABELS[change.from]} → {CAMPAIGN_STATUS_LABELS[change.to]}
+                  {change.reason && <span className="text-gray-500"> ({change.reason})</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,16 +2,34 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../components/AuthContext';
-import { campaignService, Campaign } from '../services/CampaignService';
+import { campaignService, Campaign, getConfirmedRaised } from '../services/CampaignService';
+import { formatTokenAmount, progressPercent, sumAmounts } from '../utils/tokenAmount';
+import { ReconciliationPanel } from '../components/ReconciliationPanel';
+import { getEffectiveRaised } from '../utils/matching';
+import { DonationExportPanel } from '../components/DonationExportPanel';
+import { CampaignCountdown } from '../components/CampaignCountdown';
+import { CampaignStatusBadge } from '../components/CampaignStatusBadge';
+import { CampaignStatusPanel } from '../components/CampaignStatusPanel';
+import { RewardFulfilmentPanel } from '../components/RewardFulfilmentPanel';
 
 export const CampaignTracker: React.FC = () => {
   const { walletAddress } = useAuth();
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reconcileId, setReconcileId] = useState<string | null>(null);
+  const [statusId, setStatusId] = useState<string | null>(null);
+  const [rewardsId, setRewardsId] = useState<string | null>(null);
+  // undefined: export panel closed; null: all campaigns; string: one campaign
+  const [exportScope, setExportScope] = useState<string | null | undefined>(undefined);
+  const [refreshKey, setRefreshKey] = useState(0);
   const [stats, setStats] = useState({
     totalCampaigns: 0,
-    totalRaised: 0,
+    totalRaised: 0n,
+    // Confirmed totals split by one-off donations and recurring pledge payments
+    oneOffRaised: 0n,
+    recurringRaised: 0n,
+    recurringDonors: 0,
     activeCampaigns: 0,
     totalContributors: 0
   });
@@ -20,7 +38,8 @@ export const CampaignTracker: React.FC = () => {
     const fetchUserCampaigns = async () => {
       if (!walletAddress) return;
       
-      setLoading(true);
+      // Refreshes after reconciliation keep the current view (and open report) mounted
+      if (refreshKey === 0) setLoading(true);
       try {
         const result = await campaignService.fetchUserCampaigns(walletAddress);
         
@@ -28,20 +47,29 @@ export const CampaignTracker: React.FC = () => {
           setCampaigns(result.campaigns);
           
           // Calculate stats
-          const totalRaised = result.campaigns.reduce((sum, c) => sum + (c.raised || 0), 0);
+          const totalRaised = sumAmounts(result.campaigns.map(getConfirmedRaised));
           const activeCampaigns = result.campaigns.filter(c => c.status === 'active').length;
           
           // Count unique contributors across all campaigns
           const allContributors = new Set<string>();
+          const recurringDonors = new Set<string>();
           result.campaigns.forEach(campaign => {
             campaign.donations.forEach(donation => {
               allContributors.add(donation.donor);
+              if (donation.pledgeId) recurringDonors.add(donation.donor);
             });
           });
+
+          const confirmed = result.campaigns
+            .flatMap(c => c.donations || [])
+            .filter(d => (d.status ?? 'confirmed') === 'confirmed');
           
           setStats({
             totalCampaigns: result.campaigns.length,
             totalRaised,
+            oneOffRaised: sumAmounts(confirmed.filter(d => !d.pledgeId).map(d => d.amount)),
+            recurringRaised: sumAmounts(confirmed.filter(d => d.pledgeId).map(d => d.amount)),
+            recurringDonors: recurringDonors.size,
             activeCampaigns,
             totalContributors: allContributors.size
           });
@@ -57,7 +85,7 @@ export const CampaignTracker: React.FC = () => {
     };
 
     fetchUserCampaigns();
-  }, [walletAddress]);
+  }, [walletAddress, refreshKey]);
 
   if (loading) {
     return (
@@ -98,19 +126,42 @@ export const CampaignTracker: React.FC = () => {
         
         <div className="bg-white p-4 rounded-lg shadow">
           <p className="text-sm text-gray-500 mb-1">Total Raised</p>
-          <p className="text-2xl font-bold text-blue-600">{stats.totalRaised.toLocaleString()} WLD</p>
+          <p className="text-2xl font-bold text-blue-600">{formatTokenAmount(stats.totalRaised)} WLD</p>
+          <p className="mt-1 text-xs text-gray-500">
+            One-off {formatTokenAmount(stats.oneOffRaised)} · Recurring {formatTokenAmount(stats.recurringRaised)}
+          </p>
         </div>
         
         <div className="bg-white p-4 rounded-lg shadow">
           <p className="text-sm text-gray-500 mb-1">Contributors</p>
           <p className="text-2xl font-bold text-purple-600">{stats.totalContributors}</p>
+          <p className="mt-1 text-xs text-gray-500">
+            {stats.recurringDonors} recurring
+          </p>
         </div>
       </div>
 
+      {exportScope !== undefined && (
+        <DonationExportPanel
+          key={exportScope ?? 'all'}
+          campaigns={campaigns}
+          initialCampaignId={exportScope}
+          onClose={() => setExportScope(undefined)}
+        />
+      )}
+
       {/* Campaigns Table */}
       <div className="bg-white rounded-lg shadow overflow-hidden">
-        <div className="p-4 border-b">
+        <div className="p-4 border-b flex justify-between items-center">
           <h2 className="text-lg font-semibold text-gray-800">Your Campaigns</h2>
+          {campaigns.length > 0 && (
+            <button
+              onClick={() => setExportScope(null)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Export all donations
+            </button>
+          )}
         </div>
         
         {campaigns.length === 0 ? (
@@ -140,6 +191,9 @@ export const CampaignTracker: React.FC = () => {
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Created
                   </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Deadline
+                  </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
@@ -147,10 +201,8 @@ export const CampaignTracker: React.FC = () => {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {campaigns.map((campaign) => {
-                  const progressPercentage = Math.min(
-                    Math.round((campaign.raised / campaign.goal) * 100),
-                    100
-                  );
+                  const raised = getEffectiveRaised(campaign);
+                  const progressPercentage = progressPercent(raised, campaign.goal);
                   
                   return (
                     <tr key={campaign.id} className="hover:bg-gray-50">
@@ -187,21 +239,18 @@ export const CampaignTracker: React.FC = () => {
                           ></div>
                         </div>
                         <div className="text-xs text-gray-500">
-                          {campaign.raised.toLocaleString()} / {campaign.goal.toLocaleString()} WLD ({progressPercentage}%)
+                          {formatTokenAmount(raised)} / {formatTokenAmount(campaign.goal)} WLD ({progressPercentage}%)
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                          campaign.status === 'active' ? 'bg-green-100 text-green-800' :
-                          campaign.status === 'completed' ? 'bg-blue-100 text-blue-800' :
-                          'bg-red-100 text-red-800'
-                        }`}>
-                          {campaign.status.charAt(0).toUpperCase() + campaign.status.slice(1)}
-                        </span>
+                        <CampaignStatusBadge status={campaign.status} className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full" />
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {new Date(campaign.createdAt).toLocaleDateString()}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <CampaignCountdown campaign={campaign} fallback="No deadline" />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <div className="flex space-x-2">
                           <Link 
@@ -216,6 +265,35 @@ export const CampaignTracker: React.FC = () => {
                           >
                             Edit
                           </Link>
+                          <button
+                            onClick={() => setExportScope(campaign.id)}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            Export
+                          </button>
+                          <button
+                            onClick={() => setStatusId(statusId === campaign.id ? null : campaign.id)}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            Status
+                          </button>
+                          {campaign.rewardTiers?.length ? (
+                            <button
+                              onClick={() => setRewardsId(rewardsId === campaign.id ? null : campaign.id)}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Rewards
+                            </button>
+                          ) : null}
+                          {/* Escrow donations never reach the payout address, so there is nothing to reconcile */}
+                          {campaign.fundingModel !== 'all_or_nothing' && (
+                            <button
+                              onClick={() => setReconcileId(reconcileId === campaign.id ? null : campaign.id)}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Reconcile
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -226,6 +304,30 @@ export const CampaignTracker: React.FC = () => {
           </div>
         )}
       </div>
+
+      {statusId && campaigns.find(c => c.id === statusId) && (
+        <CampaignStatusPanel
+          key={statusId}
+          campaign={campaigns.find(c => c.id === statusId)!}
+          onChanged={() => setRefreshKey(k => k + 1)}
+        />
+      )}
+
+      {rewardsId && campaigns.find(c => c.id === rewardsId) && (
+        <RewardFulfilmentPanel
+          key={rewardsId}
+          campaign={campaigns.find(c => c.id === rewardsId)!}
+          onChanged={() => setRefreshKey(k => k + 1)}
+        />
+      )}
+
+      {reconcileId && campaigns.find(c => c.id === reconcileId) && (
+        <ReconciliationPanel
+          key={reconcileId}
+          campaign={campaigns.find(c => c.id === reconcileId)!}
+          onRecorded={() => setRefreshKey(k => k + 1)}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -2,6 +2,16 @@
 import React, { useState, ChangeEvent, FormEvent } from "react";
 import { useNavigate } from "react-router-dom";
 import { campaignService, CampaignPayload } from "../services/CampaignService";
+import { isDecimalInput, tryParseTokenAmount } from "../utils/tokenAmount";
+import { validatePayoutAddress } from "../utils/address";
+import { fromDateTimeInput } from "../utils/campaignSchedule";
+import { MilestoneInput, parseMilestoneInputs } from "../utils/milestones";
+import { MilestonesEditor } from "./MilestonesEditor";
+import { RewardTierInput, parseRewardTierInputs } from "../utils/rewardTiers";
+import { RewardTiersEditor } from "./RewardTiersEditor";
+import { escrowService } from "../services/EscrowService";
+import { triggerMiniKitSendTransaction } from "../MiniKitProvider";
+import { network } from "../config/network";
 
 export function CreateCampaignForm() {
   const navigate = useNavigate();
@@ -10,15 +20,32 @@ export function CreateCampaignForm() {
   const [error, setError] = useState<string | null>(null);
   const [form, setForm] = useState<CampaignPayload>({
     title: "",
-    goal: 0,
+    goal: "0",
+    payoutAddress: "",
+    fundingModel: "direct",
+    overfundingPolicy: "allow_stretch",
     description: "",
     image: "",
   });
+  // Amounts as typed (decimal WLD); converted to base units on submit
+  const [goalInput, setGoalInput] = useState("");
+  const [minAmountInput, setMinAmountInput] = useState("");
+  const [milestoneInputs, setMilestoneInputs] = useState<MilestoneInput[]>([]);
+  const [rewardTierInputs, setRewardTierInputs] = useState<RewardTierInput[]>([]);
+  // Owner must confirm the checksummed payout address before creating
+  const [payoutConfirmed, setPayoutConfirmed] = useState(false);
+  // Drafts stay private until the owner submits them for review
+  const [saveAsDraft, setSaveAsDraft] = useState(false);
+
+  const payoutValidation = form.payoutAddress ? validatePayoutAddress(form.payoutAddress) : null;
 
   // Define character limits
   const MAX_TITLE_LENGTH = 70;
   const MAX_DESCRIPTION_LENGTH = 750;
 
+  // All-or-nothing campaigns need an escrow contract and are opened from World App, which only pays on mainnet
+  const escrowAvailable = escrowService.isConfigured() && !network.isTestnet;
+
   const onChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     
@@ -26,6 +53,18 @@ export function CreateCampaignForm() {
     if (name === 'title' && value.length > MAX_TITLE_LENGTH) return;
     if (name === 'description' && value.length > MAX_DESCRIPTION_LENGTH) return;
     
+    if (name === 'goal') {
+      if (isDecimalInput(value)) setGoalInput(value);
+      return;
+    }
+    if (name === 'minAmount') {
+      if (isDecimalInput(value)) setMinAmountInput(value);
+      return;
+    }
+    if (name === 'payoutAddress') {
+      setPayoutConfirmed(false);
+    }
+    
     setForm(prev => ({
       ...prev,
       [name]: type === "number" ? Number(value) : value,
@@ -43,13 +82,86 @@ export function CreateCampaignForm() {
         throw new Error('Campaign title is required');
       }
       
-      if (form.goal <= 0) {
+      const goal = tryParseTokenAmount(goalInput);
+      if (goal === null || goal <= 0n) {
         throw new Error('Funding goal must be greater than 0');
       }
 
-      const result = await campaignService.createCampaign(form);
+      const payout = validatePayoutAddress(form.payoutAddress);
+      if (!payout.valid) {
+        throw new Error(payout.error);
+      }
+      if (!payoutConfirmed) {
+        throw new Error('Please confirm the payout address');
+      }
+
+      let minAmount: string | undefined;
+      if (minAmountInput) {
+        const parsedMin = tryParseTokenAmount(minAmountInput);
+        if (parsedMin === null || parsedMin <= 0n) {
+          throw new Error('Minimum donation must be greater than 0');
+        }
+        if (parsedMin > goal) {
+          throw new Error('Minimum donation cannot exceed the funding goal');
+        }
+        minAmount = parsedMin.toString();
+      }
+
+      const { milestones, error: milestoneError } = parseMilestoneInputs(milestoneInputs);
+      if (milestoneError) {
+        throw new Error(milestoneError);
+      }
+
+      const { rewardTiers, error: rewardError } = parseRewardTierInputs(rewardTierInputs);
+      if (rewardError) {
+        throw new Error(rewardError);
+      }
+      const campaignMin = minAmount ? BigInt(minAmount) : 0n;
+      if (rewardTiers?.some(tier => BigInt(tier.minAmount) < campaignMin)) {
+        throw new Error('Reward minimums cannot be below the minimum donation');
+      }
+
+      const isAllOrNothing = form.fundingModel === 'all_or_nothing';
+      const startDate = fromDateTimeInput(form.startDate);
+      const endDate = fromDateTimeInput(form.endDate);
+      if (form.startDate && !startDate) {
+        throw new Error('Please enter a valid launch date');
+      }
+      if (form.endDate && (!endDate || endDate.getTime() <= Date.now())) {
+        throw new Error('The end date must be in the future');
+      }
+      if (startDate && endDate && endDate <= startDate) {
+        throw new Error('The end date must be after the launch date');
+      }
+      // The end date doubles as the escrow deadline for all-or-nothing campaigns
+      if (isAllOrNothing && !endDate) {
+        throw new Error('All-or-nothing campaigns need an end date');
+      }
+      const escrowDeadline = isAllOrNothing && endDate ? endDate : undefined;
+
+      const result = await campaignService.createCampaign({
+        ...form,
+        goal: goal.toString(),
+        payoutAddress: payout.checksummed,
+        minAmount,
+        milestones,
+        rewardTiers,
+        startDate: startDate?.toISOString(),
+        endDate: endDate?.toISOString(),
+        escrowDeadline: escrowDeadline?.toISOString(),
+      }, saveAsDraft ? 'draft' : 'pending_review');
       
       if (result.success && result.id) {
+        if (isAllOrNothing && escrowDeadline) {
+          // If this fails the owner can open the escrow later from the campaign page
+          try {
+            await triggerMiniKitSendTransaction(
+              escrowService.buildOpenTransaction(result.id, payout.checksummed, goal.toString(), escrowDeadline)
+            );
+          } catch (escrowError) {
+            console.error('Failed to open escrow:', escrowError);
+          }
+        }
         navigate(`/campaigns/${result.id}`);
       } else {
         throw new Error(result.error || 'Failed to create campaign');
@@ -97,18 +209,180 @@ export function CreateCampaignForm() {
           Funding Goal (WLD)
         </label>
         <input
-          type="number"
+          type="text"
+          inputMode="decimal"
           name="goal"
-          value={form.goal || ''}
+          value={goalInput}
           onChange={onChange}
           required
-          min="1"
-          step="0.01"
           className="w-full px-3 py-2 border rounded-md"
           placeholder="How much WLD do you need?"
         />
       </div>
 
+      {escrowAvailable && (
+        <div className="mb-4">
+          <label className="block text-gray-700 text-sm font-bold mb-2">
+            Funding Model
+          </label>
+          <label className="flex items-start mb-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="fundingModel"
+              value="direct"
+              checked={form.fundingModel !== 'all_or_nothing'}
+              onChange={onChange}
+              className="mt-1 mr-2"
+            />
+            Direct: donations go straight to your payout address
+          </label>
+          <label className="flex items-start text-sm text-gray-700">
+            <input
+              type="radio"
+              name="fundingModel"
+              value="all_or_nothing"
+              checked={form.fundingModel === 'all_or_nothing'}
+              onChange={onChange}
+              className="mt-1 mr-2"
+            />
+            All-or-nothing: donations are held in escrow and refunded if the goal is not met by the deadline
+          </label>
+          {form.fundingModel === 'all_or_nothing' && (
+            <div className="text-xs text-gray-500 mt-2">
+              The end date below is the escrow deadline. You will confirm opening the escrow in World App after the campaign is created.
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mb-4">
+        <label className="block text-gray-700 text-sm font-bold mb-2">
+          Milestones (optional)
+        </label>
+        <div className="text-xs text-gray-500 mb-2">
+          Show donors what each funding level unlocks. Milestones above the goal become stretch goals.
+        </div>
+        <MilestonesEditor value={milestoneInputs} onChange={setMilestoneInputs} />
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-gray-700 text-sm font-bold mb-2">
+          Reward Tiers (optional)
+        </label>
+        <div className="text-xs text-gray-500 mb-2">
+          Donors giving at least a tier's minimum can choose its reward. Set a quantity to limit how many can be claimed.
+        </div>
+        <RewardTiersEditor value={rewardTierInputs} onChange={setRewardTierInputs} />
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-gray-700 text-sm font-bold mb-2">
+          When the Goal Is Reached
+        </label>
+        <label className="flex items-start mb-2 text-sm text-gray-700">
+          <input
+            type="radio"
+            name="overfundingPolicy"
+            value="allow_stretch"
+            checked={form.overfundingPolicy !== 'complete_at_goal'}
+            onChange={onChange}
+            className="mt-1 mr-2"
+          />
+          Keep accepting donations as stretch funding
+        </label>
+        <label className="flex items-start text-sm text-gray-700">
+          <input
+            type="radio"
+            name="overfundingPolicy"
+            value="complete_at_goal"
+            checked={form.overfundingPolicy === 'complete_at_goal'}
+            onChange={onChange}
+            className="mt-1 mr-2"
+          />
+          Complete the campaign and stop accepting donations
+        </label>
+      </div>
+
+      <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-gray-700 text-sm font-bold mb-2">
+            Launch Date (optional)
+          </label>
+          <input
+            type="datetime-local"
+            name="startDate"
+            value={form.startDate || ''}
+            onChange={onChange}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+          <div className="text-xs text-gray-500 mt-1">Donations open immediately if left empty.</div>
+        </div>
+        <div>
+          <label className="block text-gray-700 text-sm font-bold mb-2">
+            End Date{form.fundingModel === 'all_or_nothing' ? '' : ' (optional)'}
+          </label>
+          <input
+            type="datetime-local"
+            name="endDate"
+            value={form.endDate || ''}
+            onChange={onChange}
+            required={form.fundingModel === 'all_or_nothing'}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+          <div className="text-xs text-gray-500 mt-1">Donations close at this time.</div>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-gray-700 text-sm font-bold mb-2">
+          Payout Address
+        </label>
+        <input
+          type="text"
+          name="payoutAddress"
+          value={form.payoutAddress}
+          onChange={onChange}
+          required
+          autoComplete="off"
+          spellCheck={false}
+          className="w-full px-3 py-2 border rounded-md font-mono text-sm"
+          placeholder="0x... wallet that receives donations"
+        />
+        {payoutValidation && !payoutValidation.valid && (
+          <div className="text-xs text-red-600 mt-1">{payoutValidation.error}</div>
+        )}
+        {payoutValidation?.valid && (
+          <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded">
+            <div className="text-xs text-gray-600 mb-1">Donations will be sent to:</div>
+            <div className="font-mono text-sm break-all">{payoutValidation.checksummed}</div>
+            <label className="flex items-start mt-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={payoutConfirmed}
+                onChange={e => setPayoutConfirmed(e.target.checked)}
+                className="mt-1 mr-2"
+              />
+              I confirm I control this address on World Chain. Donations sent to a wrong address cannot be recovered.
+            </label>
+          </div>
+        )}
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-gray-700 text-sm font-bold mb-2">
+          Minimum Donation (WLD, optional)
+        </label>
+        <input
+          type="text"
+          inputMode="decimal"
+          name="minAmount"
+          value={minAmountInput}
+          onChange={onChange}
+          className="w-full px-3 py-2 border rounded-md"
+          placeholder="0.01"
+        />
+      </div>
+
       <div className="mb-4">
         <label className="block text-gray-700 text-sm font-bold mb-2">
           Description
@@ -140,14 +414,28 @@ export function CreateCampaignForm() {
         />
       </div>
 
-      <button
-        type="submit"
-        disabled={loading}
-        className={`w-full py-2 px-4 rounded-md text-white font-bold
-          ${loading ? 'bg-gray-400' : 'bg-blue-600 hover:bg-blue-700'}`}
-      >
-        {loading ? 'Creating...' : 'Create Campaign'}
-      </button>
+      <div className="flex gap-4">
+        <button
+          type="submit"
+          onClick={() => setSaveAsDraft(true)}
+          disabled={loading || !payoutConfirmed}
+          className="flex-1 py-2 px-4 rounded-md font-bold text-gray-800 bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+        >
+          Save as Draft
+        </button>
+        <button
+          type="submit"
+          onClick={() => setSaveAsDraft(false)}
+          disabled={loading || !payoutConfirmed}
+          className={`flex-1 py-2 px-4 rounded-md text-white font-bold
+            ${loading ? 'bg-gray-400' : 'bg-blue-600 hover:bg-blue-700'}`}
+        >
+          {loading ? 'Creating...' : 'Submit for Review'}
+        </button>
+      </div>
+      <div className="text-xs text-gray-500 mt-2">
+        Campaigns go live once a reviewer approves them.
+      </div>
     </form>
   );
 }
\ No newline at end of file
@@ -3,6 +3,7 @@ import React, { useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../components/AuthContext';
 import { CampaignTracker } from './CampaignTracker';
+import { PledgeReminders } from '../components/PledgeReminders';
 
 const Dashboard: React.FC = () => {
   const { walletAddress, isAuthenticated, logout } = useAuth();
@@ -66,6 +67,8 @@ const Dashboard: React.FC = () => {
           </Link>
         </div>
         
+        <PledgeReminders />
+
         {/* No Campaigns Message */}
         {!walletAddress ? (
           <div className="bg-white rounded-lg shadow-md p-6 text-center">
@@ -86,10 +89,22 @@ const Dashboard: React.FC = () => {
                 Browse All Campaigns
               </Link>
               <Link
-                to="/tip-jar"
+                to="/my-donations"
+                className="block text-blue-600 hover:text-blue-800"
+              >
+                My Donations
+              </Link>
+              <Link
+                to="/my-pledges"
+                className="block text-blue-600 hover:text-blue-800"
+              >
+                Recurring Donations
+              </Link>
+              <Link
+                to="/rounds"
                 className="block text-blue-600 hover:text-blue-800"
               >
-                Tip Jar
+                Funding Rounds
               </Link>
             </div>
           </div>
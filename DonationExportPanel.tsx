@@ -0,0 +1,133 @@
+// src/components/DonationExportPanel.tsx
+import React, { useState } from 'react';
+import { Campaign, DonationStatus } from '../services/CampaignService';
+import { collectDonations, toCsv, toJson } from '../utils/donationExport';
+import { downloadBlob } from '../utils/download';
+
+const STATUSES: DonationStatus[] = ['confirmed', 'pending', 'failed'];
+
+interface DonationExportPanelProps {
+  campaigns: Campaign[];
+  // Campaign preselected from a row action; null exports every campaign
+  initialCampaignId?: string | null;
+  onClose: () => void;
+}
+
+export const DonationExportPanel: React.FC<DonationExportPanelProps> = ({
+  campaigns,
+  initialCampaignId = null,
+  onClose,
+}) => {
+  const [campaignId, setCampaignId] = useState<string>(initialCampaignId || 'all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [statuses, setStatuses] = useState<DonationStatus[]>(['confirmed']);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const toggleStatus = (status: DonationStatus) => {
+    setStatuses(prev => (prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]));
+  };
+
+  // collectDonations treats an empty status list as "any status", so require a choice here
+  const noStatus = statuses.length === 0;
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (noStatus) return;
+    const selected = campaignId === 'all' ? campaigns : campaigns.filter(c => c.id === campaignId);
+    const rows = collectDonations(selected, { from: from || undefined, to: to || undefined, statuses });
+    if (rows.length === 0) {
+      setMessage('No donations match these filters.');
+      return;
+    }
+
+    const scope = campaignId === 'all' ? 'all-campaigns' : `campaign-${campaignId}`;
+    if (format === 'csv') {
+      // BOM so spreadsheet apps read the file as UTF-8
+      downloadBlob(new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `donations-${scope}.csv`);
+    } else {
+      downloadBlob(new Blob([toJson(rows)], { type: 'application/json' }), `donations-${scope}.json`);
+    }
+    setMessage(`Exported ${rows.length} donation${rows.length === 1 ? '' : 's'}.`);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6">
+      <div className="p-4 border-b flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-800">Export Donations</h2>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">
+          Close
+        </button>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Campaign</label>
+          <select
+            value={campaignId}
+            onChange={e => setCampaignId(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md text-sm"
+          >
+            <option value="all">All my campaigns</option>
+            {campaigns.map(campaign => (
+              <option key={campaign.id} value={campaign.id}>{campaign.title}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">From</label>
+          <input
+            type="date"
+            value={from}
+            onChange={e => setFrom(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">To</label>
+          <input
+            type="date"
+            value={to}
+            onChange={e => setTo(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="px-4 pb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-4 text-sm text-gray-700">
+          <span className="text-xs text-gray-500">Status:</span>
+          {STATUSES.map(status => (
+            <label key={status} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={statuses.includes(status)}
+                onChange={() => toggleStatus(status)}
+                className="mr-1"
+              />
+              {status.charAt(0).toUpperCase() + status.slice(1)}
+            </label>
+          ))}
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={noStatus}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={noStatus}
+            className="border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm hover:bg-gray-50 disabled:text-gray-400"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {noStatus && <p className="px-4 pb-4 text-xs text-amber-700">Select at least one status to export.</p>}
+      {message && <p className="px-4 pb-4 text-xs text-gray-600">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+// src/services/DonationLimitService.ts
+// Per-human daily donation totals, keyed by World ID nullifier. The backend enforces the cap
+// when a payment intent is created; this lets the form show the remaining allowance up front.
+
+import { authService } from './AuthService';
+import { TokenAmount } from '../utils/tokenAmount';
+
+export interface DailyUsage {
+  // Total given today by this human across all wallets and campaigns
+  used: TokenAmount;
+  // When the daily window resets (ISO)
+  resetsAt: string;
+}
+
+class DonationLimitService {
+  private static instance: DonationLimitService;
+  private API_BASE: string;
+  private API_KEY?: string;
+
+  private constructor() {
+    const envApi = import.meta.env.VITE_AMPLIFY_API || import.meta.env.VITE_APP_BACKEND_API_URL;
+    if (envApi) {
+      this.API_BASE = envApi;
+    } else {
+      console.warn('[DonationLimitService] No VITE_AMPLIFY_API or VITE_APP_BACKEND_API_URL set; defaulting to /api');
+      this.API_BASE = '/api';
+    }
+    this.API_KEY = import.meta.env.VITE_WORLD_APP_API || import.meta.env.VITE_APP_BACKEND_API_KEY;
+  }
+
+  /** Get singleton instance */
+  public static getInstance(): DonationLimitService {
+    if (!DonationLimitService.instance) {
+      DonationLimitService.instance = new DonationLimitService();
+    }
+    return DonationLimitService.instance;
+  }
+
+  /** Build headers including auth token and API key */
+  private async getHeaders(): Promise<HeadersInit> {
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    };
+    const { token } = await authService.checkAuthStatus();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    if (this.API_KEY) {
+      headers['x-api-key'] = this.API_KEY;
+    }
+    return headers;
+  }
+
+  /** Today's donation total for a verified human */
+  public async fetchDailyUsage(
+    nullifierHash: string
+  ): Promise<{ success: boolean; usage?: DailyUsage; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/limits/daily?nullifierHash=${encodeURIComponent(nullifierHash)}`, {
+        method: 'GET',
+        headers,
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to fetch daily donation total (${res.status})`);
+      }
+      const usage = await res.json();
+      return { success: true, usage };
+    } catch (error: any) {
+      console.error('[DonationLimitService] fetchDailyUsage error:', error);
+      return { success: false, error: error.message || 'Failed to fetch daily donation total' };
+    }
+  }
+}
+
+export const donationLimitService = DonationLimitService.getInstance();
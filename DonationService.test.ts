@@ -0,0 +1,115 @@
+// src/services/DonationService.test.ts
+// submitManual with the on-chain check and the backend stubbed out
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { donationService } from './DonationService';
+import { paymentIntentService, PaymentIntent, PaymentIntentStatus } from './PaymentIntentService';
+import { wldPaymentService, TransactionStatus, WLDTransaction } from './WLDPaymentService';
+
+vi.mock('./WLDPaymentService', async importOriginal => ({
+  ...(await importOriginal<typeof import('./WLDPaymentService')>()),
+  wldPaymentService: { verifyTransaction: vi.fn() },
+}));
+
+vi.mock('./PaymentIntentService', async importOriginal => ({
+  ...(await importOriginal<typeof import('./PaymentIntentService')>()),
+  paymentIntentService: { createIntent: vi.fn(), bindTransaction: vi.fn() },
+}));
+
+vi.mock('./CampaignService', () => ({
+  campaignService: { fetchCampaign: vi.fn(async () => ({ success: false })), checkGoal: vi.fn() },
+}));
+
+const CAMPAIGN = '0x1111111111111111111111111111111111111111';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+const ONE_WLD = (10n ** 18n).toString();
+
+const intent: PaymentIntent = {
+  id: 'intent-1',
+  campaignId: 'campaign-1',
+  amount: ONE_WLD,
+  reference: 'ref-1',
+  idempotencyKey: 'key-1',
+  status: PaymentIntentStatus.CREATED,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const transaction = (patch: Partial<WLDTransaction> = {}): WLDTransaction => ({
+  txHash: TX_HASH,
+  from: '0x2222222222222222222222222222222222222222',
+  to: CAMPAIGN,
+  amount: ONE_WLD,
+  status: TransactionStatus.PENDING,
+  timestamp: 0,
+  confirmations: 1,
+  blockNumber: 100,
+  ...patch,
+});
+
+const submit = (amount = ONE_WLD) =>
+  donationService.submitManual(donationService.createDraft('campaign-1', amount, 'manual'), TX_HASH, CAMPAIGN);
+
+describe('submitManual', () => {
+  beforeEach(() => {
+    vi.mocked(paymentIntentService.createIntent).mockReset().mockResolvedValue({ success: true, intent });
+    vi.mocked(paymentIntentService.bindTransaction)
+      .mockReset()
+      .mockResolvedValue({ success: true, intent: { ...intent, status: PaymentIntentStatus.BOUND, donationId: 'donation-1' } });
+    vi.mocked(wldPaymentService.verifyTransaction).mockReset();
+  });
+
+  it('binds the on-chain amount once the transfer checks out', async () => {
+    vi.mocked(wldPaymentService.verifyTransaction).mockResolvedValue({ success: true, transaction: transaction() });
+
+    const attempt = await submit();
+
+    expect(attempt.state).toBe('pending_confirmation');
+    expect(paymentIntentService.bindTransaction).toHaveBeenCalledWith(intent, { txHash: TX_HASH, amount: ONE_WLD });
+  });
+
+  it('leaves settling to the backend even when the RPC shows enough confirmations', async () => {
+    vi.mocked(wldPaymentService.verifyTransaction).mockResolvedValue({
+      success: true,
+      transaction: transaction({ status: TransactionStatus.CONFIRMED, confirmations: 10 }),
+    });
+
+    const attempt = await submit();
+
+    expect(attempt.state).toBe('pending_confirmation');
+  });
+
+  it('fails without binding when the transaction cannot be verified', async () => {
+    vi.mocked(wldPaymentService.verifyTransaction).mockResolvedValue({
+      success: false,
+      error: 'Transaction does not contain a WLD transfer to the campaign address',
+    });
+
+    const attempt = await submit();
+
+    expect(attempt.state).toBe('failed');
+    expect(attempt.error).toMatch(/does not contain a WLD transfer/);
+    expect(paymentIntentService.createIntent).not.toHaveBeenCalled();
+    expect(paymentIntentService.bindTransaction).not.toHaveBeenCalled();
+  });
+
+  it('fails when the transfer is smaller than the donation entered', async () => {
+    vi.mocked(wldPaymentService.verifyTransaction).mockResolvedValue({ success: true, transaction: transaction() });
+
+    const attempt = await submit((1000n * 10n ** 18n).toString());
+
+    expect(attempt.state).toBe('failed');
+    expect(attempt.error).toMatch(/sent 1 WLD/);
+    expect(paymentIntentService.bindTransaction).not.toHaveBeenCalled();
+  });
+
+  it('fails when the transaction reverted', async () => {
+    vi.mocked(wldPaymentService.verifyTransaction).mockResolvedValue({
+      success: true,
+      transaction: transaction({ amount: '0', status: TransactionStatus.FAILED }),
+    });
+
+    const attempt = await submit();
+
+    expect(attempt.state).toBe('failed');
+    expect(paymentIntentService.bindTransaction).not.toHaveBeenCalled();
+  });
+});
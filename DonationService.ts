@@ -0,0 +1,395 @@
+// src/services/DonationService.ts
+// Single donation pipeline shared by every donation UI.
+// draft → submitted → pending_confirmation → confirmed | failed
+
+import type { MiniAppPaymentSuccessPayload, MiniAppSendTransactionSuccessPayload } from '@worldcoin/minikit-js';
+import {
+  paymentIntentService,
+  IntentDetails,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentIntentErrorCode,
+} from './PaymentIntentService';
+import { wldPaymentService, TransactionStatus } from './WLDPaymentService';
+import { campaignService, Donation } from './CampaignService';
+import { TokenAmount, formatTokenAmount, toBigInt } from '../utils/tokenAmount';
+import { shouldAutoComplete } from '../utils/campaignGoal';
+import type { DonorDisplayOptions } from '../utils/donorDisplay';
+
+export type DonationState = 'draft' | 'submitted' | 'pending_confirmation' | 'confirmed' | 'failed';
+
+export type DonationMethod = 'manual' | 'minikit' | 'escrow';
+
+// Allowed transitions; a failed donation can be returned to draft and retried.
+// Only the backend's confirmation settles a donation, so confirmed is reached from pending_confirmation.
+const DONATION_TRANSITIONS: Record<DonationState, DonationState[]> = {
+  draft: ['submitted', 'failed'],
+  submitted: ['pending_confirmation', 'failed'],
+  pending_confirmation: ['confirmed', 'failed'],
+  confirmed: [],
+  failed: ['draft'],
+};
+
+export interface DonationAttempt {
+  campaignId: string;
+  amount: TokenAmount;
+  method: DonationMethod;
+  state: DonationState;
+  // How the donor appears publicly; sent with the payment intent
+  display?: DonorDisplayOptions;
+  pledgeId?: string;
+  nullifierHash?: string;
+  tipPercent?: number;
+  tipAmount?: TokenAmount;
+  rewardTierId?: string;
+  intent?: PaymentIntent;
+  txHash?: string;
+  transactionId?: string;
+  error?: string;
+  errorCode?: PaymentIntentErrorCode;
+  updatedAt: number;
+}
+
+export interface DonationTransitionEvent {
+  from: DonationState;
+  to: DonationState;
+  attempt: DonationAttempt;
+}
+
+export interface PollOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onUpdate?: (donation: Donation) => void;
+}
+
+/**
+ * A donation is settled once the backend marks it confirmed or failed. Confirmation depth
+ * alone is not enough: the campaign total only includes donations the backend has confirmed.
+ */
+export const isDonationSettled = (donation: Donation): boolean =>
+  donation.status === 'failed' || donation.status === 'confirmed';
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+type TransitionListener = (event: DonationTransitionEvent) => void;
+type StateChangeHandler = (attempt: DonationAttempt) => void;
+
+class DonationService {
+  private static instance: DonationService;
+  private listeners = new Set<TransitionListener>();
+
+  private constructor() {
+    // A recorded donation may take the campaign to its goal
+    this.onTransition(({ to, attempt }) => {
+      if (to === 'confirmed') void this.completeIfGoalReached(attempt.campaignId);
+    });
+  }
+
+  /** Get singleton instance */
+  public static getInstance(): DonationService {
+    if (!DonationService.instance) {
+      DonationService.instance = new DonationService();
+    }
+    return DonationService.instance;
+  }
+
+  /** Subscribe to every state transition (analytics, logging); returns an unsubscribe function */
+  public onTransition(listener: TransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public canTransition(from: DonationState, to: DonationState): boolean {
+    return DONATION_TRANSITIONS[from].includes(to);
+  }
+
+  /** Start a new donation */
+  public createDraft(
+    campaignId: string,
+    amount: TokenAmount,
+    method: DonationMethod,
+    details: IntentDetails = {}
+  ): DonationAttempt {
+    return { campaignId, amount, method, state: 'draft', ...details, updatedAt: Date.now() };
+  }
+
+  /** Move an attempt to a new state; throws on transitions the state machine does not allow */
+  public transition(
+    attempt: DonationAttempt,
+    to: DonationState,
+    patch: Partial<DonationAttempt> = {}
+  ): DonationAttempt {
+    if (!this.canTransition(attempt.state, to)) {
+      throw new Error(`Invalid donation transition: ${attempt.state} → ${to}`);
+    }
+    const next: DonationAttempt = { ...attempt, ...patch, state: to, updatedAt: Date.now() };
+    console.log(`[DonationService] ${attempt.campaignId}: ${attempt.state} → ${to}`);
+    this.listeners.forEach(listener => {
+      try {
+        listener({ from: attempt.state, to, attempt: next });
+      } catch (error) {
+        console.error('[DonationService] Transition listener error:', error);
+      }
+    });
+    return next;
+  }
+
+  /** Have the backend complete the campaign if its policy stops donations at the goal */
+  private async completeIfGoalReached(campaignId: string): Promise<void> {
+    const result = await campaignService.fetchCampaign(campaignId);
+    if (result.success && result.campaign && shouldAutoComplete(result.campaign)) {
+      await campaignService.checkGoal(campaignId);
+    }
+  }
+
+  /** Reuse the attempt's intent when it is still unbound, otherwise create a new one */
+  private async ensureIntent(attempt: DonationAttempt): Promise<PaymentIntent> {
+    if (attempt.intent && attempt.intent.amount === attempt.amount && attempt.intent.status === PaymentIntentStatus.CREATED) {
+      return attempt.intent;
+    }
+    const created = await paymentIntentService.createIntent(attempt.campaignId, attempt.amount, {
+      display: attempt.display,
+      pledgeId: attempt.pledgeId,
+      nullifierHash: attempt.nullifierHash,
+      tipPercent: attempt.tipPercent,
+      tipAmount: attempt.tipAmount,
+      rewardTierId: attempt.rewardTierId,
+    });
+    if (!created.success || !created.intent) {
+      throw new Error(created.error || 'Failed to start donation');
+    }
+    return created.intent;
+  }
+
+  private fail(attempt: DonationAttempt, error: any, onStateChange?: StateChangeHandler): DonationAttempt {
+    const failed = this.transition(attempt, 'failed', {
+      error: error?.message || 'Failed to process donation',
+      errorCode: error?.errorCode,
+    });
+    onStateChange?.(failed);
+    return failed;
+  }
+
+  /**
+   * Check a manually sent transaction on-chain, then bind it. The transfer must reach the
+   * campaign address with exactly the amount the donor entered, and the intent records the
+   * on-chain amount rather than the typed one.
+   */
+  public async submitManual(
+    draft: DonationAttempt,
+    txHash: string,
+    campaignAddress: string,
+    onStateChange?: StateChangeHandler
+  ): Promise<DonationAttempt> {
+    let attempt = this.transition(draft, 'submitted', { txHash, error: undefined, errorCode: undefined });
+    onStateChange?.(attempt);
+
+    try {
+      const verified = await wldPaymentService.verifyTransaction(txHash, campaignAddress);
+      if (!verified.success || !verified.transaction) {
+        throw new Error(verified.error || 'Transaction verification failed');
+      }
+      const transaction = verified.transaction;
+      if (transaction.status === TransactionStatus.FAILED) {
+        throw new Error('Transaction failed on-chain. No WLD was transferred.');
+      }
+      if (toBigInt(transaction.amount) !== toBigInt(attempt.amount)) {
+        throw new Error(
+          `The transaction sent ${formatTokenAmount(transaction.amount)} WLD, but the donation is for ${formatTokenAmount(attempt.amount)} WLD.`
+        );
+      }
+
+      const intent = await this.ensureIntent(attempt);
+      attempt = { ...attempt, intent };
+
+      const bound = await paymentIntentService.bindTransaction(intent, { txHash, amount: transaction.amount });
+      if (!bound.success) {
+        throw Object.assign(new Error(bound.error || 'Failed to record donation'), { errorCode: bound.errorCode });
+      }
+
+      // Settled by awaitConfirmation once the backend confirms it, whatever the RPC depth says
+      attempt = this.transition(attempt, 'pending_confirmation', { intent: bound.intent });
+      onStateChange?.(attempt);
+      return attempt;
+    } catch (error: any) {
+      console.error('[DonationService] submitManual error:', error);
+      return this.fail(attempt, error, onStateChange);
+    }
+  }
+
+  /** Pay through World App and bind the returned payload */
+  public async submitMiniKit(
+    draft: DonationAttempt,
+    pay: (intent: PaymentIntent) => Promise<MiniAppPaymentSuccessPayload>,
+    onStateChange?: StateChangeHandler
+  ): Promise<DonationAttempt> {
+    let attempt = draft;
+    try {
+      const intent = await this.ensureIntent(attempt);
+      attempt = { ...attempt, intent };
+
+      // The user approves the payment in World App before anything is submitted
+      const payload = await pay(intent);
+      if (payload.reference !== intent.reference) {
+        throw new Error('Payment reference does not match this donation');
+      }
+
+      attempt = this.transition(attempt, 'submitted', {
+        transactionId: payload.transaction_id,
+        error: undefined,
+        errorCode: undefined,
+      });
+      onStateChange?.(attempt);
+
+      const bound = await paymentIntentService.bindTransaction(intent, {
+        transactionId: payload.transaction_id,
+        payload,
+      });
+      if (!bound.success) {
+        throw Object.assign(new Error(bound.error || 'Failed to record payment'), { errorCode: bound.errorCode });
+      }
+
+      attempt = this.transition(attempt, 'pending_confirmation', { intent: bound.intent, txHash: bound.intent?.txHash });
+      onStateChange?.(attempt);
+      return attempt;
+    } catch (error: any) {
+      console.error('[DonationService] submitMiniKit error:', error);
+      return this.fail(attempt, error, onStateChange);
+    }
+  }
+
+  /**
+   * Pay the platform tip for a recorded donation. The tip is a second payment with its own
+   * reference, so a declined or failed tip never affects the donation itself.
+   */
+  public async submitTip(
+    attempt: DonationAttempt,
+    pay: (reference: string) => Promise<MiniAppPaymentSuccessPayload>
+  ): Promise<{ success: boolean; error?: string }> {
+    const intent = attempt.intent;
+    if (!intent?.tipReference || !attempt.tipAmount) {
+      return { success: false, error: 'This donation has no tip to pay' };
+    }
+    try {
+      const payload = await pay(intent.tipReference);
+      if (payload.reference !== intent.tipReference) {
+        throw new Error('Payment reference does not match this tip');
+      }
+      return await paymentIntentService.bindTip(intent, { transactionId: payload.transaction_id, payload });
+    } catch (error: any) {
+      console.error('[DonationService] submitTip error:', error);
+      return { success: false, error: error.message || 'Tip payment failed' };
+    }
+  }
+
+  /** Donate into an all-or-nothing escrow through World App and bind the submitted transaction */
+  public async submitEscrow(
+    draft: DonationAttempt,
+    send: (intent: PaymentIntent) => Promise<MiniAppSendTransactionSuccessPayload>,
+    onStateChange?: StateChangeHandler
+  ): Promise<DonationAttempt> {
+    let attempt = draft;
+    try {
+      const intent = await this.ensureIntent(attempt);
+      attempt = { ...attempt, intent };
+
+      const payload = await send(intent);
+
+      attempt = this.transition(attempt, 'submitted', {
+        transactionId: payload.transaction_id,
+        error: undefined,
+        errorCode: undefined,
+      });
+      onStateChange?.(attempt);
+
+      // The backend resolves the transaction id and matches the escrow Donated event by reference
+      const bound = await paymentIntentService.bindTransaction(intent, {
+        transactionId: payload.transaction_id,
+        escrow: true,
+        from: payload.from,
+      });
+      if (!bound.success) {
+        throw Object.assign(new Error(bound.error || 'Failed to record donation'), { errorCode: bound.errorCode });
+      }
+
+      attempt = this.transition(attempt, 'pending_confirmation', { intent: bound.intent, txHash: bound.intent?.txHash });
+      onStateChange?.(attempt);
+      return attempt;
+    } catch (error: any) {
+      console.error('[DonationService] submitEscrow error:', error);
+      return this.fail(attempt, error, onStateChange);
+    }
+  }
+
+  /**
+   * Poll a donation with exponential backoff until it is settled, the timeout passes
+   * or the signal aborts. Resolves with the last status seen.
+   */
+  public async pollDonationStatus(
+    campaignId: string,
+    donationId: string,
+    options: PollOptions = {}
+  ): Promise<Donation | null> {
+    const { initialDelayMs = 2000, maxDelayMs = 30000, timeoutMs = 10 * 60 * 1000, signal, onUpdate } = options;
+    const deadline = Date.now() + timeoutMs;
+    let delay = initialDelayMs;
+    let latest: Donation | null = null;
+
+    while (!signal?.aborted && Date.now() < deadline) {
+      await wait(delay, signal);
+      if (signal?.aborted) break;
+
+      const result = await campaignService.fetchDonation(campaignId, donationId);
+      if (result.success && result.donation) {
+        latest = result.donation;
+        onUpdate?.(latest);
+        if (isDonationSettled(latest)) {
+          return latest;
+        }
+      }
+      delay = Math.min(delay * 2, maxDelayMs);
+    }
+    return latest;
+  }
+
+  /** Follow a pending attempt until its donation is confirmed or fails */
+  public async awaitConfirmation(
+    attempt: DonationAttempt,
+    onStateChange?: StateChangeHandler,
+    signal?: AbortSignal
+  ): Promise<DonationAttempt> {
+    const donationId = attempt.intent?.donationId;
+    if (attempt.state !== 'pending_confirmation' || !donationId) {
+      return attempt;
+    }
+
+    const donation = await this.pollDonationStatus(attempt.campaignId, donationId, { signal });
+    if (!donation || signal?.aborted || !isDonationSettled(donation)) {
+      return attempt;
+    }
+
+    const next = donation.status === 'failed'
+      ? this.transition(attempt, 'failed', { error: 'The transaction failed and the donation was not recorded.' })
+      : this.transition(attempt, 'confirmed', { txHash: donation.txHash || attempt.txHash });
+    onStateChange?.(next);
+    return next;
+  }
+
+  /** Return a failed attempt to draft so it can be retried with the same intent */
+  public retry(attempt: DonationAttempt): DonationAttempt {
+    return this.transition(attempt, 'draft', { error: undefined, errorCode: undefined });
+  }
+}
+
+export const donationService = DonationService.getInstance();
@@ -0,0 +1,18 @@
+// src/components/DonationStatusBadge.tsx
+import React from 'react';
+import type { Donation } from '../services/CampaignService';
+
+// Badge shown next to donations that are not yet confirmed
+export const DonationStatusBadge: React.FC<{ donation: Donation }> = ({ donation }) => {
+  if (donation.status === 'pending') {
+    return (
+      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">
+        Pending{donation.confirmations !== undefined ? ` (${donation.confirmations} conf.)` : ''}
+      </span>
+    );
+  }
+  if (donation.status === 'failed') {
+    return <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Failed</span>;
+  }
+  return null;
+};
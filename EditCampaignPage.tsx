@@ -1,6 +1,7 @@
 // src/pages/EditCampaignPage.tsx
 import React from 'react';
 import { useParams, Link } from 'react-router-dom';
+import { EditCampaignForm } from '../components/CampaignList';
 
 const EditCampaignPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -59,6 +60,7 @@ const EditCampaignPage: React.FC = () => {
           </Link>
         </div>
         
+        <EditCampaignForm id={id} />
       </main>
     </div>
   );
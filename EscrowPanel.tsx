@@ -0,0 +1,165 @@
+// src/components/EscrowPanel.tsx
+import React, { useState } from 'react';
+import type { SendTransactionInput } from '@worldcoin/minikit-js';
+import { triggerMiniKitSendTransaction, isMiniKitPaymentAvailable } from '../MiniKitProvider';
+import { Campaign } from '../services/CampaignService';
+import { network } from '../config/network';
+import { escrowService, EscrowPhase, EscrowState } from '../services/EscrowService';
+import { formatTokenAmount, progressPercent, toBigInt, TokenAmount } from '../utils/tokenAmount';
+
+interface EscrowPanelProps {
+  campaign: Campaign;
+  escrow: EscrowState | null;
+  phase: EscrowPhase | null;
+  // Why the escrow's terms differ from the campaign's; donations are refused while set
+  mismatch: string | null;
+  contribution: TokenAmount;
+  isOwner: boolean;
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+}
+
+const PHASE_TEXT: Record<EscrowPhase, string> = {
+  not_opened: 'The escrow for this campaign has not been opened yet.',
+  funding: 'Donations are held in escrow until the deadline.',
+  succeeded: 'The goal was met. Funds can be released to the campaign owner.',
+  failed: 'The goal was not met by the deadline. Donors can claim refunds.',
+  claimed: 'The goal was met and funds have been released to the campaign owner.',
+};
+
+export const EscrowPanel: React.FC<EscrowPanelProps> = ({
+  campaign,
+  escrow,
+  phase,
+  mismatch,
+  contribution,
+  isOwner,
+  loading,
+  error,
+  onRefresh,
+}) => {
+  const [sending, setSending] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const inWorldApp = isMiniKitPaymentAvailable();
+
+  const send = async (build: () => SendTransactionInput) => {
+    setSending(true);
+    setActionError(null);
+    try {
+      await triggerMiniKitSendTransaction(build());
+      setSubmitted(true);
+      onRefresh();
+    } catch (err: any) {
+      setActionError(err.message || 'Transaction failed');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleOpen = () => {
+    if (!campaign.escrowDeadline) {
+      setActionError('This campaign has no deadline set');
+      return;
+    }
+    send(() => escrowService.buildOpenTransaction(
+      campaign.id,
+      campaign.payoutAddress,
+      campaign.goal,
+      new Date(campaign.escrowDeadline!)
+    ));
+  };
+
+  if (loading && !escrow) {
+    return <div className="text-sm text-gray-500 mb-6">Loading escrow status...</div>;
+  }
+
+  if (error || !escrow || !phase) {
+    return (
+      <div className="mb-6 p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+        {error || 'Escrow status is unavailable.'}
+        <button onClick={onRefresh} className="ml-2 underline">Retry</button>
+      </div>
+    );
+  }
+
+  const percent = progressPercent(escrow.raised, escrow.goal);
+
+  return (
+    <div className="mb-6 p-4 border border-indigo-200 bg-indigo-50 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-semibold text-indigo-900">All-or-nothing escrow</h2>
+        <button onClick={onRefresh} disabled={loading} className="text-xs text-indigo-700 underline">
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+      <p className="text-sm text-indigo-800 mb-3">{PHASE_TEXT[phase]}</p>
+      {mismatch && (
+        <p className="text-sm text-red-700 mb-3">{mismatch} Donations are paused until this is resolved.</p>
+      )}
+
+      {escrow.opened && (
+        <>
+          <div className="w-full bg-indigo-100 rounded-full h-2 mb-1">
+            <div className="bg-indigo-600 h-2 rounded-full" style={{ width: `${percent}%` }}></div>
+          </div>
+          <div className="flex justify-between text-xs text-indigo-800 mb-3">
+            <span>{formatTokenAmount(escrow.raised)} WLD in escrow</span>
+            <span>Deadline: {new Date(escrow.deadline).toLocaleString()}</span>
+          </div>
+        </>
+      )}
+
+      {toBigInt(contribution) > 0n && (
+        <p className="text-sm text-indigo-900 mb-3">
+          Your contribution: <span className="font-medium">{formatTokenAmount(contribution)} WLD</span>
+        </p>
+      )}
+
+      {submitted && (
+        <p className="text-xs text-green-700 mb-2">Transaction submitted. Refresh once it has been mined.</p>
+      )}
+      {actionError && <p className="text-xs text-red-600 mb-2">{actionError}</p>}
+
+      {!inWorldApp && (isOwner || toBigInt(contribution) > 0n) && phase !== 'funding' && phase !== 'claimed' && (
+        <p className="text-xs text-indigo-700">
+          {network.isTestnet
+            ? 'Escrow transactions go through World App, which uses mainnet WLD, so they are disabled in test mode.'
+            : 'Open WorldFund in World App to send escrow transactions.'}
+        </p>
+      )}
+
+      {inWorldApp && isOwner && phase === 'not_opened' && (
+        <button
+          onClick={handleOpen}
+          disabled={sending}
+          className="w-full py-2 px-4 rounded-md text-white text-sm font-medium bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300"
+        >
+          {sending ? 'Sending...' : 'Open escrow'}
+        </button>
+      )}
+
+      {inWorldApp && isOwner && phase === 'succeeded' && (
+        <button
+          onClick={() => send(() => escrowService.buildClaimTransaction(campaign))}
+          disabled={sending}
+          className="w-full py-2 px-4 rounded-md text-white text-sm font-medium bg-green-600 hover:bg-green-700 disabled:bg-green-300"
+        >
+          {sending ? 'Sending...' : 'Claim funds'}
+        </button>
+      )}
+
+      {inWorldApp && phase === 'failed' && toBigInt(contribution) > 0n && (
+        <button
+          onClick={() => send(() => escrowService.buildRefundTransaction(campaign))}
+          disabled={sending}
+          className="w-full py-2 px-4 rounded-md text-white text-sm font-medium bg-yellow-600 hover:bg-yellow-700 disabled:bg-yellow-300"
+        >
+          {sending ? 'Sending...' : 'Claim refund'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+// src/services/EscrowService.test.ts
+// EscrowService bindings against the escrow contract on a local EVM. Start anvil and run with
+// ANVIL_RPC_URL=http://127.0.0.1:8545; the suite is skipped without it.
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SendTransactionInput } from '@worldcoin/minikit-js';
+import {
+  Abi,
+  Hex,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeAbiParameters,
+  encodeFunctionData,
+  http,
+  keccak256,
+  parseAbiParameters,
+  parseEther,
+  stringToHex,
+} from 'viem';
+import { privateKeyToAccount, PrivateKeyAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
+import solc from 'solc';
+import escrowSource from '../../contracts/AllOrNothingEscrow.sol?raw';
+import tokenSource from '../../contracts/test/MockERC20.sol?raw';
+import permit2Source from '../../contracts/test/MockPermit2.sol?raw';
+
+const RPC_URL: string | undefined = import.meta.env.ANVIL_RPC_URL;
+
+// anvil's default funded accounts
+const [owner, beneficiary, donorA, donorB] = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+  '0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6',
+].map(key => privateKeyToAccount(key as Hex));
+
+interface Artifact {
+  abi: Abi;
+  bytecode: Hex;
+}
+
+const compile = (): Record<'AllOrNothingEscrow' | 'MockERC20' | 'MockPermit2', Artifact> => {
+  const output = JSON.parse(solc.compile(JSON.stringify({
+    language: 'Solidity',
+    sources: {
+      'contracts/AllOrNothingEscrow.sol': { content: escrowSource },
+      'contracts/test/MockERC20.sol': { content: tokenSource },
+      'contracts/test/MockPermit2.sol': { content: permit2Source },
+    },
+    settings: { outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } } },
+  })));
+  const errors = (output.errors || []).filter((e: { severity: string }) => e.severity === 'error');
+  if (errors.length > 0) throw new Error(errors.map((e: { formattedMessage: string }) => e.formattedMessage).join('\n'));
+  const artifact = (file: string, name: string): Artifact => ({
+    abi: output.contracts[file][name].abi,
+    bytecode: `0x${output.contracts[file][name].evm.bytecode.object}`,
+  });
+  return {
+    AllOrNothingEscrow: artifact('contracts/AllOrNothingEscrow.sol', 'AllOrNothingEscrow'),
+    MockERC20: artifact('contracts/test/MockERC20.sol', 'MockERC20'),
+    MockPermit2: artifact('contracts/test/MockPermit2.sol', 'MockPermit2'),
+  };
+};
+
+describe.skipIf(!RPC_URL)('EscrowService against a local EVM', () => {
+  const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+  const testClient = createTestClient({ chain: foundry, mode: 'anvil', transport: http(RPC_URL) });
+  const wallet = (account: PrivateKeyAccount) => createWalletClient({ account, chain: foundry, transport: http(RPC_URL) });
+
+  let token: Artifact & { address: Hex };
+  let escrowModule: typeof import('./EscrowService');
+  let escrowService: typeof import('./EscrowService')['escrowService'];
+  let getEscrowPhase: typeof import('./EscrowService')['getEscrowPhase'];
+  let getEscrowMismatch: typeof import('./EscrowService')['getEscrowMismatch'];
+
+  const deploy = async (artifact: Artifact, args: unknown[] = []): Promise<Hex> => {
+    const hash = await wallet(owner).deployContract({ abi: artifact.abi, bytecode: artifact.bytecode, args });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  };
+
+  const chainTime = async (): Promise<number> => Number((await publicClient.getBlock()).timestamp);
+
+  // Permit deadlines are built from Date.now(); keep it in step with the chain after time travel
+  const syncClock = async () => vi.setSystemTime((await chainTime()) * 1000);
+
+  const passTime = async (seconds: number) => {
+    await testClient.increaseTime({ seconds });
+    // evm_mine rather than anvil_mine, so other dev nodes can stand in for anvil
+    await testClient.request({ method: 'evm_mine', params: undefined });
+    await syncClock();
+  };
+
+  // Send what the app hands to MiniKit; World App would put the Permit2 signature in the placeholder
+  const send = async (account: PrivateKeyAccount, input: SendTransactionInput) => {
+    const receipts = [];
+    for (const tx of input.transaction) {
+      const args = tx.args.map(arg => (arg === 'PERMIT2_SIGNATURE_PLACEHOLDER_0' ? '0x' : arg));
+      const data = encodeFunctionData({ abi: tx.abi as Abi, functionName: tx.functionName, args });
+      const hash = await wallet(account).sendTransaction({ to: tx.address as Hex, data, gas: 1_000_000n });
+      receipts.push(await publicClient.waitForTransactionReceipt({ hash }));
+    }
+    return receipts;
+  };
+
+  const balanceOf = async (address: Hex): Promise<bigint> =>
+    (await publicClient.readContract({ address: token.address, abi: token.abi, functionName: 'balanceOf', args: [address] })) as bigint;
+
+  const fund = async (account: PrivateKeyAccount, permit2: Hex, amount: bigint) => {
+    for (const [signer, functionName, args] of [
+      [owner, 'mint', [account.address, amount]],
+      [account, 'approve', [permit2, amount]],
+    ] as const) {
+      const hash = await wallet(signer).writeContract({ address: token.address, abi: token.abi, functionName, args });
+      await publicClient.waitForTransactionReceipt({ hash });
+    }
+  };
+
+  beforeAll(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await syncClock();
+
+    const artifacts = compile();
+    token = { ...artifacts.MockERC20, address: await deploy(artifacts.MockERC20) };
+    const permit2 = await deploy(artifacts.MockPermit2);
+    const escrow = await deploy(artifacts.AllOrNothingEscrow, [permit2, token.address]);
+    await fund(donorA, permit2, parseEther('100'));
+    await fund(donorB, permit2, parseEther('100'));
+
+    // The service reads its addresses when the module loads
+    vi.stubEnv('VITE_NETWORK', 'local');
+    vi.stubEnv('VITE_WORLDCHAIN_RPC_URL', RPC_URL!);
+    vi.stubEnv('VITE_WLD_TOKEN_ADDRESS', token.address);
+    vi.stubEnv('VITE_ESCROW_CONTRACT_ADDRESS', escrow);
+    escrowModule = await import('./EscrowService');
+    ({ escrowService, getEscrowPhase, getEscrowMismatch } = escrowModule);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('keys campaigns by the opener and keccak256 of the campaign id', async () => {
+    const deadline = new Date(((await chainTime()) + 3600) * 1000);
+    await send(owner, escrowService.buildOpenTransaction('campaign-key', beneficiary.address, parseEther('1').toString(), deadline));
+
+    const onChain = await publicClient.readContract({
+      address: escrowModule.ESCROW_CONTRACT_ADDRESS as Hex,
+      abi: escrowModule.ESCROW_ABI,
+      functionName: 'getCampaign',
+      args: [keccak256(encodeAbiParameters(parseAbiParameters('address, bytes32'), [owner.address, keccak256(stringToHex('campaign-key'))]))],
+    });
+    expect(onChain[0]).toBe(beneficiary.address);
+    expect(onChain[2]).toBe(BigInt(Math.floor(deadline.getTime() / 1000)));
+  });
+
+  it('keeps an escrow opened by someone else apart from the owner\'s', async () => {
+    const campaign = { id: 'campaign-squatted', ownerId: owner.address, payoutAddress: beneficiary.address, goal: parseEther('10').toString() };
+    const deadline = new Date(((await chainTime()) + 3600) * 1000);
+
+    // An attacker opening the same campaign id first gets their own key, not the owner's
+    const [squat] = await send(donorB, escrowService.buildOpenTransaction(campaign.id, donorB.address, '1', deadline));
+    expect(squat!.status).toBe('success');
+    expect((await escrowService.getEscrowState(campaign)).state!.opened).toBe(false);
+
+    const [opened] = await send(owner, escrowService.buildOpenTransaction(campaign.id, beneficiary.address, campaign.goal, deadline));
+    expect(opened!.status).toBe('success');
+    const state = (await escrowService.getEscrowState(campaign)).state!;
+    expect(getEscrowMismatch(state, { ...campaign, endDate: deadline.toISOString() })).toBeNull();
+    expect(getEscrowMismatch(state, { ...campaign, payoutAddress: donorB.address, endDate: deadline.toISOString() })).not.toBeNull();
+  });
+
+  it('releases funds to the beneficiary when the goal is met', async () => {
+    const campaign = { id: 'campaign-funded', ownerId: owner.address };
+    const deadline = new Date(((await chainTime()) + 3600) * 1000);
+    await send(owner, escrowService.buildOpenTransaction(campaign.id, beneficiary.address, parseEther('10').toString(), deadline));
+
+    await send(donorA, escrowService.buildDonateTransaction(campaign, parseEther('6').toString(), 'intent-a'));
+    await send(donorB, escrowService.buildDonateTransaction(campaign, parseEther('5').toString(), 'intent-b'));
+
+    const funding = await escrowService.getEscrowState(campaign);
+    expect(funding.state).toMatchObject({ opened: true, raised: parseEther('11').toString(), claimed: false });
+    expect(getEscrowPhase(funding.state!)).toBe('funding');
+    expect(await escrowService.getContribution(campaign, donorA.address)).toBe(parseEther('6').toString());
+
+    // Nothing can leave escrow before the deadline
+    const [early] = await send(beneficiary, escrowService.buildClaimTransaction(campaign));
+    expect(early!.status).toBe('reverted');
+
+    await passTime(3601);
+    expect(getEscrowPhase((await escrowService.getEscrowState(campaign)).state!)).toBe('succeeded');
+
+    const [refund] = await send(donorA, escrowService.buildRefundTransaction(campaign));
+    expect(refund!.status).toBe('reverted');
+
+    const before = await balanceOf(beneficiary.address);
+    const [claim] = await send(beneficiary, escrowService.buildClaimTransaction(campaign));
+    expect(claim!.status).toBe('success');
+    expect((await balanceOf(beneficiary.address)) - before).toBe(parseEther('11'));
+    expect(getEscrowPhase((await escrowService.getEscrowState(campaign)).state!)).toBe('claimed');
+  });
+
+  it('refunds each donor when the goal is missed', async () => {
+    const campaign = { id: 'campaign-missed', ownerId: owner.address };
+    const deadline = new Date(((await chainTime()) + 3600) * 1000);
+    await send(owner, escrowService.buildOpenTransaction(campaign.id, beneficiary.address, parseEther('50').toString(), deadline));
+    await send(donorA, escrowService.buildDonateTransaction(campaign, parseEther('4').toString(), 'intent-c'));
+
+    await passTime(3601);
+    expect(getEscrowPhase((await escrowService.getEscrowState(campaign)).state!)).toBe('failed');
+
+    const [claim] = await send(beneficiary, escrowService.buildClaimTransaction(campaign));
+    expect(claim!.status).toBe('reverted');
+
+    const before = await balanceOf(donorA.address);
+    const [refund] = await send(donorA, escrowService.buildRefundTransaction(campaign));
+    expect(refund!.status).toBe('success');
+    expect((await balanceOf(donorA.address)) - before).toBe(parseEther('4'));
+    expect(await escrowService.getContribution(campaign, donorA.address)).toBe('0');
+
+    // A second refund has nothing left to return
+    const [again] = await send(donorA, escrowService.buildRefundTransaction(campaign));
+    expect(again!.status).toBe('reverted');
+  });
+});
@@ -0,0 +1,300 @@
+// src/services/EscrowService.ts
+// Bindings for the all-or-nothing escrow contract. Donations are pulled into escrow with
+// Permit2; the beneficiary can claim once the deadline passes with the goal met, otherwise
+// every donor can refund their own contribution.
+//
+// Writes are built as MiniKit sendTransaction inputs; reads go through eth_call.
+
+import type { SendTransactionInput } from '@worldcoin/minikit-js';
+import { decodeFunctionResult, encodeAbiParameters, encodeFunctionData, keccak256, stringToHex } from 'viem';
+import { worldChainRpc } from './WorldChainRpc';
+import { WLD_TOKEN_ADDRESS } from './WLDPaymentService';
+import type { Campaign } from './CampaignService';
+import { getCampaignEndDate } from '../utils/campaignSchedule';
+import { TokenAmount, toBigInt } from '../utils/tokenAmount';
+
+export const ESCROW_CONTRACT_ADDRESS = import.meta.env.VITE_ESCROW_CONTRACT_ADDRESS || '';
+
+// How long a signed Permit2 transfer stays valid
+const PERMIT_TTL_SECONDS = 30 * 60;
+
+export const ESCROW_ABI = [
+  {
+    type: 'function',
+    name: 'openCampaign',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'campaignId', type: 'bytes32' },
+      { name: 'beneficiary', type: 'address' },
+      { name: 'goal', type: 'uint256' },
+      { name: 'deadline', type: 'uint64' },
+    ],
+    outputs: [{ name: 'campaignKey', type: 'bytes32' }],
+  },
+  {
+    type: 'function',
+    name: 'donate',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'campaignKey', type: 'bytes32' },
+      { name: 'paymentReference', type: 'bytes32' },
+      {
+        name: 'permit',
+        type: 'tuple',
+        components: [
+          {
+            name: 'permitted',
+            type: 'tuple',
+            components: [
+              { name: 'token', type: 'address' },
+              { name: 'amount', type: 'uint256' },
+            ],
+          },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'claim',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'campaignKey', type: 'bytes32' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'refund',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'campaignKey', type: 'bytes32' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'getCampaign',
+    stateMutability: 'view',
+    inputs: [{ name: 'campaignKey', type: 'bytes32' }],
+    outputs: [
+      { name: 'beneficiary', type: 'address' },
+      { name: 'goal', type: 'uint256' },
+      { name: 'deadline', type: 'uint64' },
+      { name: 'raised', type: 'uint256' },
+      { name: 'claimed', type: 'bool' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'contributionOf',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'campaignKey', type: 'bytes32' },
+      { name: 'donor', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface EscrowState {
+  opened: boolean;
+  beneficiary: string;
+  goal: TokenAmount;
+  raised: TokenAmount;
+  // Unix time in milliseconds
+  deadline: number;
+  claimed: boolean;
+}
+
+export type EscrowPhase = 'not_opened' | 'funding' | 'succeeded' | 'failed' | 'claimed';
+
+// The campaign fields that locate its escrow; the owner's wallet is the one that opens it
+export type EscrowCampaignRef = Pick<Campaign, 'id' | 'ownerId'>;
+
+/** Campaign id as passed to openCampaign */
+export const escrowCampaignId = (campaignId: string): `0x${string}` => keccak256(stringToHex(campaignId));
+
+/**
+ * On-chain key for a campaign, as the contract derives it from the opener and campaign id.
+ * Binding the key to the owner stops anyone else from opening the escrow first.
+ */
+export const escrowKey = (campaign: EscrowCampaignRef): `0x${string}` =>
+  keccak256(encodeAbiParameters(
+    [{ type: 'address' }, { type: 'bytes32' }],
+    [campaign.ownerId as `0x${string}`, escrowCampaignId(campaign.id)]
+  ));
+
+/**
+ * Why an opened escrow's terms differ from the campaign's, or null when they match. Donations
+ * must not go into an escrow whose beneficiary, goal or deadline the campaign does not show.
+ */
+export const getEscrowMismatch = (
+  state: EscrowState,
+  campaign: Pick<Campaign, 'payoutAddress' | 'goal' | 'endDate' | 'escrowDeadline'>
+): string | null => {
+  if (state.beneficiary.toLowerCase() !== campaign.payoutAddress.toLowerCase()) {
+    return 'The escrow pays a different address than this campaign.';
+  }
+  if (toBigInt(state.goal) !== toBigInt(campaign.goal)) {
+    return 'The escrow goal differs from this campaign\'s goal.';
+  }
+  const endDate = getCampaignEndDate(campaign);
+  // The contract stores whole seconds
+  if (!endDate || state.deadline !== Math.floor(new Date(endDate).getTime() / 1000) * 1000) {
+    return 'The escrow deadline differs from this campaign\'s end date.';
+  }
+  return null;
+};
+
+/** Where an escrow stands; successful and failed are only decided once the deadline passes */
+export const getEscrowPhase = (state: EscrowState, now: number = Date.now()): EscrowPhase => {
+  if (!state.opened) return 'not_opened';
+  if (state.claimed) return 'claimed';
+  if (now < state.deadline) return 'funding';
+  return toBigInt(state.raised) >= toBigInt(state.goal) ? 'succeeded' : 'failed';
+};
+
+const randomNonce = (): bigint => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return BigInt(`0x${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`);
+};
+
+class EscrowService {
+  private static instance: EscrowService;
+
+  private constructor() {}
+
+  /** Get singleton instance */
+  public static getInstance(): EscrowService {
+    if (!EscrowService.instance) {
+      EscrowService.instance = new EscrowService();
+    }
+    return EscrowService.instance;
+  }
+
+  /** All-or-nothing campaigns are only offered when an escrow contract is configured */
+  public isConfigured(): boolean {
+    return /^0x[0-9a-fA-F]{40}$/.test(ESCROW_CONTRACT_ADDRESS);
+  }
+
+  private contractAddress(): string {
+    if (!this.isConfigured()) {
+      throw new Error('Escrow contract address is not configured');
+    }
+    return ESCROW_CONTRACT_ADDRESS;
+  }
+
+  /** Read the escrow for a campaign */
+  public async getEscrowState(campaign: EscrowCampaignRef): Promise<{ success: boolean; state?: EscrowState; error?: string }> {
+    try {
+      const data = encodeFunctionData({ abi: ESCROW_ABI, functionName: 'getCampaign', args: [escrowKey(campaign)] });
+      const result = await worldChainRpc.ethCall(this.contractAddress(), data);
+      const [beneficiary, goal, deadline, raised, claimed] = decodeFunctionResult({
+        abi: ESCROW_ABI,
+        functionName: 'getCampaign',
+        data: result as `0x${string}`,
+      });
+      return {
+        success: true,
+        state: {
+          opened: beneficiary !== ZERO_ADDRESS,
+          beneficiary,
+          goal: goal.toString(),
+          raised: raised.toString(),
+          deadline: Number(deadline) * 1000,
+          claimed,
+        },
+      };
+    } catch (error: any) {
+      console.error('[EscrowService] getEscrowState error:', error);
+      return { success: false, error: error.message || 'Failed to read escrow' };
+    }
+  }
+
+  /** Amount a donor currently holds in a campaign's escrow */
+  public async getContribution(campaign: EscrowCampaignRef, donor: string): Promise<TokenAmount> {
+    const data = encodeFunctionData({
+      abi: ESCROW_ABI,
+      functionName: 'contributionOf',
+      args: [escrowKey(campaign), donor as `0x${string}`],
+    });
+    const result = await worldChainRpc.ethCall(this.contractAddress(), data);
+    const amount = decodeFunctionResult({ abi: ESCROW_ABI, functionName: 'contributionOf', data: result as `0x${string}` });
+    return amount.toString();
+  }
+
+  /** Register a campaign's escrow; must be sent from the owner's wallet, which the key is bound to */
+  public buildOpenTransaction(
+    campaignId: string,
+    beneficiary: string,
+    goal: TokenAmount,
+    deadline: Date
+  ): SendTransactionInput {
+    return {
+      transaction: [{
+        address: this.contractAddress(),
+        abi: ESCROW_ABI,
+        functionName: 'openCampaign',
+        args: [escrowCampaignId(campaignId), beneficiary, goal, Math.floor(deadline.getTime() / 1000).toString()],
+      }],
+    };
+  }
+
+  /**
+   * Donate into escrow. World App signs the Permit2 transfer and substitutes the signature
+   * for the placeholder; the payment reference ties the transfer to its intent.
+   */
+  public buildDonateTransaction(campaign: EscrowCampaignRef, amount: TokenAmount, reference: string): SendTransactionInput {
+    const escrow = this.contractAddress();
+    const nonce = randomNonce().toString();
+    const deadline = (Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS).toString();
+    return {
+      transaction: [{
+        address: escrow,
+        abi: ESCROW_ABI,
+        functionName: 'donate',
+        args: [
+          escrowKey(campaign),
+          keccak256(stringToHex(reference)),
+          [[WLD_TOKEN_ADDRESS, amount], nonce, deadline],
+          'PERMIT2_SIGNATURE_PLACEHOLDER_0',
+        ],
+      }],
+      permit2: [{
+        permitted: { token: WLD_TOKEN_ADDRESS, amount },
+        spender: escrow,
+        nonce,
+        deadline,
+      }],
+    };
+  }
+
+  /** Release escrowed funds to the beneficiary; reverts unless the goal was met by the deadline */
+  public buildClaimTransaction(campaign: EscrowCampaignRef): SendTransactionInput {
+    return {
+      transaction: [{
+        address: this.contractAddress(),
+        abi: ESCROW_ABI,
+        functionName: 'claim',
+        args: [escrowKey(campaign)],
+      }],
+    };
+  }
+
+  /** Return the sender's contribution; reverts unless the deadline passed without meeting the goal */
+  public buildRefundTransaction(campaign: EscrowCampaignRef): SendTransactionInput {
+    return {
+      transaction: [{
+        address: this.contractAddress(),
+        abi: ESCROW_ABI,
+        functionName: 'refund',
+        args: [escrowKey(campaign)],
+      }],
+    };
+  }
+}
+
+export const escrowService = EscrowService.getInstance();
@@ -0,0 +1,172 @@
+// src/pages/FundingRoundPage.tsx
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { fundingRoundService, FundingRound, getRoundPhase } from '../services/FundingRoundService';
+import { useRoundResults } from '../hooks/useFundingRound';
+import { formatTokenAmount } from '../utils/tokenAmount';
+
+const PHASE_LABELS = {
+  upcoming: 'Upcoming',
+  active: 'In progress',
+  ended: 'Ended',
+};
+
+const FundingRoundPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [round, setRound] = useState<FundingRound | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { results, loading: resultsLoading, error: resultsError } = useRoundResults(round);
+
+  useEffect(() => {
+    const fetchRound = async () => {
+      if (!id) return;
+      setLoading(true);
+      const result = await fundingRoundService.fetchRound(id);
+      if (result.success && result.round) {
+        setRound(result.round);
+        setError(null);
+      } else {
+        setError(result.error || 'Funding round not found');
+      }
+      setLoading(false);
+    };
+
+    fetchRound();
+  }, [id]);
+
+  const phase = round ? getRoundPhase(round) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <header className="bg-white shadow-sm mb-6">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <Link to="/" className="text-xl font-bold text-blue-600">
+            WorldFund
+          </Link>
+          <Link to="/rounds" className="text-gray-600 hover:text-gray-900">
+            All rounds
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            <p className="mt-2 text-gray-600">Loading round...</p>
+          </div>
+        ) : error || !round || !phase ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error || 'Funding round not found'}
+          </div>
+        ) : (
+          <>
+            <div className="mb-6">
+              <div className="flex items-center gap-3 mb-1">
+                <h1 className="text-2xl font-bold text-gray-900">{round.name}</h1>
+                <span className={`px-2 py-0.5 rounded-full text-xs ${
+                  phase === 'active' ? 'bg-green-100 text-green-800' :
+                  phase === 'upcoming' ? 'bg-yellow-100 text-yellow-800' :
+                  'bg-gray-100 text-gray-800'
+                }`}>
+                  {PHASE_LABELS[phase]}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600">
+                {new Date(round.startsAt).toLocaleDateString()} – {new Date(round.endsAt).toLocaleDateString()}
+              </p>
+              {round.description && <p className="mt-2 text-gray-700 whitespace-pre-line">{round.description}</p>}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="bg-white p-4 rounded-lg shadow">
+                <p className="text-sm text-gray-500 mb-1">Matching Pool</p>
+                <p className="text-2xl font-bold text-teal-600">{formatTokenAmount(round.matchingPool)} WLD</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow">
+                <p className="text-sm text-gray-500 mb-1">Contributed by Verified Humans</p>
+                <p className="text-2xl font-bold text-blue-600">
+                  {results ? `${formatTokenAmount(results.totalContributed)} WLD` : '—'}
+                </p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow">
+                <p className="text-sm text-gray-500 mb-1">{phase === 'ended' ? 'Matching Awarded' : 'Projected Matching'}</p>
+                <p className="text-2xl font-bold text-purple-600">
+                  {results ? `${formatTokenAmount(results.totalMatching)} WLD` : '—'}
+                </p>
+              </div>
+            </div>
+
+            {resultsError && (
+              <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md mb-4 text-sm">
+                {resultsError}
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              {resultsLoading && !results ? (
+                <p className="p-6 text-center text-gray-600">Calculating matching...</p>
+              ) : !results || results.campaigns.length === 0 ? (
+                <p className="p-6 text-center text-gray-600">No campaigns are taking part in this round.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Campaign
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Unique Humans
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Contributed
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {phase === 'ended' ? 'Matching' : 'Projected Matching'}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {results.campaigns.map(entry => (
+                        <tr key={entry.campaignId} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <Link to={`/campaigns/${entry.campaignId}`} className="text-blue-600 hover:text-blue-900">
+                              {entry.campaignTitle}
+                            </Link>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.uniqueHumans}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatTokenAmount(entry.contributed)} WLD
+                            {entry.unverifiedContributed > 0n && (
+                              <span className="block text-xs text-gray-400">
+                                +{formatTokenAmount(entry.unverifiedContributed)} WLD unverified
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-purple-700">
+                            {formatTokenAmount(entry.matching)} WLD
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <p className="mt-4 text-xs text-gray-500">
+              Each campaign's match is (Σ √contribution)² − Σ contribution over its unique World ID verified
+              donors, so many small gifts earn more than one large gift.
+              {results?.scaled && ' Matches are scaled down proportionally to fit the pool.'}
+              {phase !== 'ended' && ' Figures are projections until the round ends.'}
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default FundingRoundPage;
@@ -0,0 +1,110 @@
+// src/services/FundingRoundService.ts
+// Quadratic funding rounds: a matching pool shared between participating campaigns
+// according to how many unique humans supported each of them during the round.
+
+import { authService } from './AuthService';
+import { TokenAmount } from '../utils/tokenAmount';
+
+export type RoundPhase = 'upcoming' | 'active' | 'ended';
+
+export interface FundingRound {
+  id: string;
+  name: string;
+  description?: string;
+  matchingPool: TokenAmount;
+  startsAt: string;
+  endsAt: string;
+  campaignIds: string[];
+  createdAt: string;
+}
+
+export const getRoundPhase = (round: FundingRound, now: number = Date.now()): RoundPhase => {
+  if (now < new Date(round.startsAt).getTime()) return 'upcoming';
+  if (now > new Date(round.endsAt).getTime()) return 'ended';
+  return 'active';
+};
+
+class FundingRoundService {
+  private static instance: FundingRoundService;
+  private API_BASE: string;
+  private API_KEY?: string;
+
+  private constructor() {
+    const envApi = import.meta.env.VITE_AMPLIFY_API || import.meta.env.VITE_APP_BACKEND_API_URL;
+    if (envApi) {
+      this.API_BASE = envApi;
+    } else {
+      console.warn('[FundingRoundService] No VITE_AMPLIFY_API or VITE_APP_BACKEND_API_URL set; defaulting to /api');
+      this.API_BASE = '/api';
+    }
+    this.API_KEY = import.meta.env.VITE_WORLD_APP_API || import.meta.env.VITE_APP_BACKEND_API_KEY;
+  }
+
+  /** Get singleton instance */
+  public static getInstance(): FundingRoundService {
+    if (!FundingRoundService.instance) {
+      FundingRoundService.instance = new FundingRoundService();
+    }
+    return FundingRoundService.instance;
+  }
+
+  /** Build headers including auth token and API key */
+  private async getHeaders(): Promise<HeadersInit> {
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    };
+    const { token } = await authService.checkAuthStatus();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    if (this.API_KEY) {
+      headers['x-api-key'] = this.API_KEY;
+    }
+    return headers;
+  }
+
+  /** Fetch rounds, optionally only those a campaign takes part in */
+  public async fetchRounds(
+    campaignId?: string
+  ): Promise<{ success: boolean; rounds?: FundingRound[]; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const query = campaignId ? `?campaignId=${encodeURIComponent(campaignId)}` : '';
+      const res = await fetch(`${this.API_BASE}/funding-rounds${query}`, {
+        method: 'GET',
+        headers,
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to fetch funding rounds (${res.status})`);
+      }
+      const data = await res.json();
+      return { success: true, rounds: data.rounds || [] };
+    } catch (error: any) {
+      console.error('[FundingRoundService] fetchRounds error:', error);
+      return { success: false, error: error.message || 'Failed to fetch funding rounds' };
+    }
+  }
+
+  /** Fetch a single round by ID */
+  public async fetchRound(
+    id: string
+  ): Promise<{ success: boolean; round?: FundingRound; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/funding-rounds/${id}`, {
+        method: 'GET',
+        headers,
+      });
+      if (!res.ok) {
+        throw new Error(`Funding round not found (${res.status})`);
+      }
+      const round = await res.json();
+      return { success: true, round };
+    } catch (error: any) {
+      console.error('[FundingRoundService] fetchRound error:', error);
+      return { success: false, error: error.message || 'Failed to fetch funding round' };
+    }
+  }
+}
+
+export const fundingRoundService = FundingRoundService.getInstance();
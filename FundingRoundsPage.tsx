@@ -0,0 +1,91 @@
+// src/pages/FundingRoundsPage.tsx
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { fundingRoundService, FundingRound, getRoundPhase } from '../services/FundingRoundService';
+import { formatTokenAmount } from '../utils/tokenAmount';
+
+const FundingRoundsPage: React.FC = () => {
+  const [rounds, setRounds] = useState<FundingRound[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRounds = async () => {
+      setLoading(true);
+      const result = await fundingRoundService.fetchRounds();
+      if (result.success && result.rounds) {
+        setRounds(
+          [...result.rounds].sort((a, b) => new Date(b.startsAt).getTime() - new Date(a.startsAt).getTime())
+        );
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load funding rounds');
+      }
+      setLoading(false);
+    };
+
+    fetchRounds();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <header className="bg-white shadow-sm mb-6">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <Link to="/" className="text-xl font-bold text-blue-600">
+            WorldFund
+          </Link>
+          <Link to="/campaigns" className="text-gray-600 hover:text-gray-900">
+            Campaigns
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Funding Rounds</h1>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            <p className="mt-2 text-gray-600">Loading rounds...</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        ) : rounds.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-600">
+            There are no funding rounds yet.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {rounds.map(round => {
+              const phase = getRoundPhase(round);
+              return (
+                <Link
+                  key={round.id}
+                  to={`/rounds/${round.id}`}
+                  className="block bg-white rounded-lg shadow p-4 hover:shadow-lg transition-shadow"
+                >
+                  <div className="flex justify-between items-center mb-1">
+                    <h2 className="text-lg font-semibold text-gray-900">{round.name}</h2>
+                    <span className="text-xs text-gray-500">
+                      {phase === 'active' ? 'In progress' : phase === 'upcoming' ? 'Upcoming' : 'Ended'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {formatTokenAmount(round.matchingPool)} WLD pool · {round.campaignIds.length} campaigns
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(round.startsAt).toLocaleDateString()} – {new Date(round.endsAt).toLocaleDateString()}
+                  </p>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default FundingRoundsPage;
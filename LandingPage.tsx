@@ -2,13 +2,16 @@
 import React, { useState, useEffect, useCallback } from 'react'; // Added useCallback
 import { useAuth } from '../components/AuthContext';
 import { campaignService, Campaign as CampaignData } from '../services/CampaignService';
+import { TokenAmount, progressPercent } from '../utils/tokenAmount';
+import { getDaysLeft } from '../utils/campaignSchedule';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { triggerMiniKitWalletAuth } from '../MiniKitProvider';
 import { MiniAppWalletAuthSuccessPayload } from '@worldcoin/minikit-js';
 
 // Campaign Interface
 interface CampaignDisplay extends CampaignData {
-  daysLeft: number;
+  // Null for campaigns without an end date
+  daysLeft: number | null;
   creator: string;
   isVerified: boolean;
 }
@@ -48,7 +51,7 @@ const LandingPage: React.FC = () => {
         if (result.success && result.campaigns) {
           const displayCampaigns: CampaignDisplay[] = result.campaigns.map(campaign => ({
             ...campaign,
-            daysLeft: calculateDaysLeft(campaign.createdAt),
+            daysLeft: getDaysLeft(campaign),
             creator: formatAddress(campaign.ownerId),
             isVerified: true, // Assuming all creators are verified
           }));
@@ -145,8 +148,7 @@ const LandingPage: React.FC = () => {
   }, [navigate]);
 
   // --- Helper Functions (keep your existing implementations) ---
-  const calculateProgressPercentage = (raised: number, goal: number): string => { if (goal <= 0) return '0%'; return Math.min(Math.round((raised / goal) * 100), 100) + '%'; };
-  const calculateDaysLeft = (createdAt: string): number => { const created = new Date(createdAt); const now = new Date(); const diffTime = 30 * 24 * 60 * 60 * 1000 - (now.getTime() - created.getTime()); const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); return Math.max(0, diffDays); };
+  const calculateProgressPercentage = (raised: TokenAmount, goal: TokenAmount): string => progressPercent(raised, goal) + '%';
   const formatAddress = (address: string): string => { if (!address) return 'Anonymous'; return `${address.slice(0, 6)}...${address.slice(-4)}`; };
   const isActivePath = (path: string): boolean => location.pathname === path || (path === '/' && location.pathname === '/landing') || (path === '/campaigns' && location.pathname.startsWith('/campaigns/'));
 
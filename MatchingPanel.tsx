@@ -0,0 +1,183 @@
+// src/components/MatchingPanel.tsx
+import React, { useState } from 'react';
+import { campaignService, Campaign } from '../services/CampaignService';
+import { MatchingSummary, describeRatio } from '../utils/matching';
+import { validatePayoutAddress } from '../utils/address';
+import { formatTokenAmount, isDecimalInput, progressPercent, tryParseTokenAmount } from '../utils/tokenAmount';
+
+interface MatchingPanelProps {
+  campaign: Campaign;
+  matching: MatchingSummary;
+  isOwner: boolean;
+  onPledgeAdded: () => void;
+}
+
+export const MatchingPanel: React.FC<MatchingPanelProps> = ({ campaign, matching, isOwner, onPledgeAdded }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [sponsorName, setSponsorName] = useState('');
+  const [sponsorAddress, setSponsorAddress] = useState('');
+  const [ratio, setRatio] = useState('1');
+  const [cap, setCap] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const ratioValue = Number(ratio);
+    const capValue = tryParseTokenAmount(cap);
+    const expiry = expiresAt ? new Date(`${expiresAt}T23:59:59`) : null;
+    if (!sponsorName.trim()) {
+      setFormError('Sponsor name is required');
+      return;
+    }
+    if (!Number.isFinite(ratioValue) || ratioValue <= 0) {
+      setFormError('Ratio must be a positive number, e.g. 1 for 1:1');
+      return;
+    }
+    if (capValue === null || capValue <= 0n) {
+      setFormError('Cap must be a positive WLD amount');
+      return;
+    }
+    if (!expiry || expiry.getTime() <= Date.now()) {
+      setFormError('Expiry must be in the future');
+      return;
+    }
+    let checksummed: string | undefined;
+    if (sponsorAddress.trim()) {
+      const validation = validatePayoutAddress(sponsorAddress);
+      if (!validation.valid) {
+        setFormError(validation.error);
+        return;
+      }
+      checksummed = validation.checksummed;
+    }
+
+    setSaving(true);
+    const result = await campaignService.addMatchingPledge(campaign.id, {
+      sponsorName: sponsorName.trim(),
+      sponsorAddress: checksummed,
+      ratio: ratioValue,
+      cap: capValue.toString(),
+      expiresAt: expiry.toISOString(),
+    });
+    setSaving(false);
+    if (!result.success) {
+      setFormError(result.error || 'Failed to add matching pledge');
+      return;
+    }
+    setShowForm(false);
+    setSponsorName('');
+    setSponsorAddress('');
+    setRatio('1');
+    setCap('');
+    setExpiresAt('');
+    onPledgeAdded();
+  };
+
+  if (matching.pledges.length === 0 && !isOwner) return null;
+
+  return (
+    <div className="mb-6 p-4 border border-amber-200 bg-amber-50 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-semibold text-amber-900">Sponsor matching</h2>
+        {isOwner && !showForm && (
+          <button onClick={() => setShowForm(true)} className="text-xs text-amber-800 underline">
+            Add sponsor
+          </button>
+        )}
+      </div>
+
+      {matching.pledges.length === 0 && (
+        <p className="text-sm text-amber-800">No sponsors are matching donations to this campaign yet.</p>
+      )}
+
+      <div className="space-y-3">
+        {matching.pledges.map(({ pledge, matched, cap, expired, pending }) => (
+          <div key={pledge.id}>
+            <div className="flex justify-between text-sm text-amber-900">
+              <span className="font-medium">
+                {pledge.sponsorName} matches {describeRatio(pledge.ratio)}
+              </span>
+              <span className="text-xs">
+                {expired ? 'Ended' : 'Until'} {new Date(pledge.expiresAt).toLocaleDateString()}
+              </span>
+            </div>
+            <div className="w-full bg-amber-100 rounded-full h-2 my-1">
+              <div className="bg-amber-500 h-2 rounded-full" style={{ width: `${progressPercent(matched, cap)}%` }}></div>
+            </div>
+            <div className="flex justify-between text-xs text-amber-800">
+              <span>Matched {formatTokenAmount(matched)} of {formatTokenAmount(cap)} WLD</span>
+              {pending > 0n && <span>{formatTokenAmount(pending)} WLD pending from sponsor</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isOwner && showForm && (
+        <form onSubmit={handleAdd} className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={sponsorName}
+            onChange={e => setSponsorName(e.target.value)}
+            placeholder="Sponsor name"
+            className="px-3 py-2 border rounded-md text-sm"
+          />
+          <input
+            type="text"
+            value={sponsorAddress}
+            onChange={e => setSponsorAddress(e.target.value)}
+            placeholder="Sponsor wallet (optional)"
+            className="px-3 py-2 border rounded-md text-sm font-mono"
+          />
+          <div>
+            <label className="block text-xs text-amber-800 mb-1">Ratio (1 = 1:1)</label>
+            <input
+              type="text"
+              value={ratio}
+              onChange={e => isDecimalInput(e.target.value) && setRatio(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-amber-800 mb-1">Cap (WLD)</label>
+            <input
+              type="text"
+              value={cap}
+              onChange={e => isDecimalInput(e.target.value) && setCap(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-amber-800 mb-1">Expires</label>
+            <input
+              type="date"
+              value={expiresAt}
+              onChange={e => setExpiresAt(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md text-sm"
+            />
+          </div>
+          <div className="flex items-end space-x-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2 px-4 rounded-md text-white text-sm font-medium bg-amber-600 hover:bg-amber-700 disabled:bg-amber-300"
+            >
+              {saving ? 'Saving...' : 'Add'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="py-2 px-4 rounded-md text-sm border border-amber-300 text-amber-800"
+            >
+              Cancel
+            </button>
+          </div>
+          {formError && <p className="sm:col-span-2 text-xs text-red-600">{formError}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
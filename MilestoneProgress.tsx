@@ -0,0 +1,73 @@
+// src/components/MilestoneProgress.tsx
+import React from 'react';
+import type { Campaign } from '../services/CampaignService';
+import { getMilestoneSegments } from '../utils/milestones';
+import { formatTokenAmount } from '../utils/tokenAmount';
+
+interface MilestoneProgressProps {
+  campaign: Campaign;
+  raised: bigint;
+  compact?: boolean;
+}
+
+// Progress bar split at each milestone; cards add a one-line summary below it
+export const MilestoneProgress: React.FC<MilestoneProgressProps> = ({ campaign, raised, compact = false }) => {
+  const segments = getMilestoneSegments(campaign, raised);
+  const milestoneSegments = segments.filter(segment => segment.milestone);
+  const reachedCount = milestoneSegments.filter(segment => segment.reached).length;
+  const next = milestoneSegments.find(segment => !segment.reached)?.milestone;
+
+  return (
+    <div className="mb-2">
+      <div className={`flex w-full gap-0.5 ${compact ? 'h-2' : 'h-4'}`}>
+        {segments.map((segment, index) => (
+          <div
+            key={index}
+            className="bg-gray-200 rounded-sm overflow-hidden h-full"
+            style={{ flexGrow: segment.widthPercent, flexBasis: 0 }}
+            title={segment.milestone
+              ? `${segment.milestone.title}: ${formatTokenAmount(segment.milestone.amount)} WLD`
+              : `Goal: ${formatTokenAmount(segment.to)} WLD`}
+          >
+            <div className="h-full bg-green-500" style={{ width: `${segment.fillPercent}%` }}></div>
+          </div>
+        ))}
+      </div>
+      {compact && (
+        <p className="mt-1 text-xs text-gray-500 truncate">
+          {reachedCount} of {milestoneSegments.length} milestones reached
+          {next && ` · Next: ${next.title}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Each milestone with what it unlocks, reached ones checked off
+export const MilestoneList: React.FC<{ campaign: Campaign; raised: bigint }> = ({ campaign, raised }) => {
+  const milestoneSegments = getMilestoneSegments(campaign, raised).filter(segment => segment.milestone);
+
+  return (
+    <ol className="mt-3 space-y-2">
+      {milestoneSegments.map(({ milestone, reached }, index) => (
+        <li key={index} className="flex items-start">
+          <span
+            className={`mt-0.5 mr-2 flex-shrink-0 h-5 w-5 rounded-full flex items-center justify-center text-xs ${
+              reached ? 'bg-green-500 text-white' : 'border border-gray-300 text-gray-400'
+            }`}
+          >
+            {reached ? '✓' : index + 1}
+          </span>
+          <div className="min-w-0">
+            <p className={`text-sm font-medium ${reached ? 'text-green-800' : 'text-gray-800'}`}>
+              {formatTokenAmount(milestone!.amount)} WLD · {milestone!.title}
+            </p>
+            {milestone!.description && (
+              <p className="text-xs text-gray-600 whitespace-pre-line break-words">{milestone!.description}</p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
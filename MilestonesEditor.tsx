@@ -0,0 +1,73 @@
+// src/components/MilestonesEditor.tsx
+import React from 'react';
+import {
+  MilestoneInput,
+  MAX_MILESTONES,
+  MAX_MILESTONE_TITLE_LENGTH,
+  MAX_MILESTONE_DESCRIPTION_LENGTH,
+} from '../utils/milestones';
+import { isDecimalInput } from '../utils/tokenAmount';
+
+interface MilestonesEditorProps {
+  value: MilestoneInput[];
+  onChange: (milestones: MilestoneInput[]) => void;
+}
+
+// Rows are kept as typed; the form validates and sorts them by amount on submit
+export const MilestonesEditor: React.FC<MilestonesEditorProps> = ({ value, onChange }) => {
+  const updateRow = (index: number, field: keyof MilestoneInput, fieldValue: string) => {
+    if (field === 'amount' && !isDecimalInput(fieldValue)) return;
+    onChange(value.map((row, i) => (i === index ? { ...row, [field]: fieldValue } : row)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((row, index) => (
+        <div key={index} className="p-3 border rounded-md bg-gray-50 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={row.amount}
+              onChange={(e) => updateRow(index, 'amount', e.target.value)}
+              placeholder="WLD"
+              className="w-28 px-3 py-2 border rounded-md text-sm"
+            />
+            <input
+              type="text"
+              value={row.title}
+              onChange={(e) => updateRow(index, 'title', e.target.value)}
+              maxLength={MAX_MILESTONE_TITLE_LENGTH}
+              placeholder="What this level unlocks"
+              className="flex-1 px-3 py-2 border rounded-md text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="px-2 text-sm text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+          <textarea
+            value={row.description}
+            onChange={(e) => updateRow(index, 'description', e.target.value)}
+            maxLength={MAX_MILESTONE_DESCRIPTION_LENGTH}
+            rows={2}
+            placeholder="Description (optional)"
+            className="w-full px-3 py-2 border rounded-md text-sm"
+          />
+        </div>
+      ))}
+      {value.length < MAX_MILESTONES && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, { amount: '', title: '', description: '' }])}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add milestone
+        </button>
+      )}
+    </div>
+  );
+};
@@ -16,7 +16,16 @@ interface ImportMeta {
 import type { ReactNode } from 'react';
 import React, { useEffect, useState, useCallback } from 'react';
 // Import MiniKit and necessary types
-import { MiniKit, MiniAppWalletAuthSuccessPayload } from '@worldcoin/minikit-js';
+import {
+  MiniKit,
+  MiniAppWalletAuthSuccessPayload,
+  MiniAppPaymentSuccessPayload,
+  MiniAppSendTransactionSuccessPayload,
+  SendTransactionInput,
+  Tokens,
+} from '@worldcoin/minikit-js';
+import type { TokenAmount } from './utils/tokenAmount';
+import { network } from './config/network';
 // Import the useAuth hook to access context methods
 import { useAuth } from './components/AuthContext';
 
@@ -115,6 +124,126 @@ export const triggerMiniKitWalletAuth = async (
   }
 };
 
+// World App pays and sends transactions with mainnet WLD, so test networks must use the
+// manual flow with the test token instead
+const TEST_MODE_ERROR = `World App pays with mainnet WLD. In ${network.label} test mode, send the test token manually instead.`;
+
+// Whether World App can be used for payments and transactions: inside World App, on mainnet
+export const isMiniKitPaymentAvailable = (): boolean => {
+  if (network.isTestnet) return false;
+  try {
+    return MiniKit.isInstalled();
+  } catch {
+    return false;
+  }
+};
+
+// Parameters for a WLD payment through World App
+export interface MiniKitPayRequest {
+  reference: string;   // Server-issued payment reference
+  to: string;          // Recipient address
+  amount: TokenAmount; // Amount in WLD base units
+  description: string;
+}
+
+// Export a function to trigger a WLD payment through World App.
+// Only usable inside World App; callers should fall back to the manual flow otherwise.
+export const triggerMiniKitPay = async (
+  request: MiniKitPayRequest
+): Promise<MiniAppPaymentSuccessPayload> => {
+  console.log('[triggerMiniKitPay] Function called with reference:', request.reference);
+
+  if (!request.reference) {
+    throw new Error('A server-issued payment reference is required to trigger a payment.');
+  }
+
+  if (network.isTestnet) {
+    throw new Error(TEST_MODE_ERROR);
+  }
+
+  if (typeof MiniKit === 'undefined' || !MiniKit.isInstalled || !MiniKit.isInstalled()) {
+    throw new Error('MiniKit is not available. Open WorldFund inside World App to pay directly.');
+  }
+
+  if (!MiniKit.commandsAsync || !MiniKit.commandsAsync.pay) {
+    console.error('[triggerMiniKitPay] MiniKit pay command not available');
+    throw new Error('MiniKit pay command not available');
+  }
+
+  try {
+    const result = await MiniKit.commandsAsync.pay({
+      reference: request.reference,
+      to: request.to,
+      tokens: [
+        {
+          symbol: Tokens.WLD,
+          token_amount: request.amount,
+        },
+      ],
+      description: request.description,
+    });
+    console.log('[triggerMiniKitPay] Pay result:', result);
+
+    if (!result || !result.finalPayload) {
+      throw new Error('MiniKit payment did not complete (no payload). User might have cancelled.');
+    }
+
+    const finalPayload: MiniKitFinalPayload = result.finalPayload;
+
+    if (finalPayload.status !== 'success') {
+      const errorCode = finalPayload.error_code;
+      console.error(`[triggerMiniKitPay] MiniKit pay returned non-success status: ${finalPayload.status}, error_code: ${errorCode}`);
+      throw new Error(`MiniKit payment failed: ${errorCode || finalPayload.status || 'unknown MiniKit error'}`);
+    }
+
+    return finalPayload as MiniAppPaymentSuccessPayload;
+  } catch (error) {
+    console.error('[triggerMiniKitPay] Error during payment:', error);
+    throw error;
+  }
+};
+
+// Export a function to send contract transactions through World App (e.g. escrow donations).
+// Resolves once World App has submitted the transaction; it may not be mined yet.
+export const triggerMiniKitSendTransaction = async (
+  input: SendTransactionInput
+): Promise<MiniAppSendTransactionSuccessPayload> => {
+  if (network.isTestnet) {
+    throw new Error(TEST_MODE_ERROR);
+  }
+
+  if (typeof MiniKit === 'undefined' || !MiniKit.isInstalled || !MiniKit.isInstalled()) {
+    throw new Error('MiniKit is not available. Open WorldFund inside World App to continue.');
+  }
+
+  if (!MiniKit.commandsAsync || !MiniKit.commandsAsync.sendTransaction) {
+    console.error('[triggerMiniKitSendTransaction] MiniKit sendTransaction command not available');
+    throw new Error('MiniKit sendTransaction command not available');
+  }
+
+  try {
+    const result = await MiniKit.commandsAsync.sendTransaction(input);
+    console.log('[triggerMiniKitSendTransaction] Send transaction result:', result);
+
+    if (!result || !result.finalPayload) {
+      throw new Error('Transaction was not sent (no payload). User might have cancelled.');
+    }
+
+    const finalPayload: MiniKitFinalPayload = result.finalPayload;
+
+    if (finalPayload.status !== 'success') {
+      const errorCode = finalPayload.error_code;
+      console.error(`[triggerMiniKitSendTransaction] Returned non-success status: ${finalPayload.status}, error_code: ${errorCode}`);
+      throw new Error(`Transaction failed: ${errorCode || finalPayload.status || 'unknown MiniKit error'}`);
+    }
+
+    return finalPayload as MiniAppSendTransactionSuccessPayload;
+  } catch (error) {
+    console.error('[triggerMiniKitSendTransaction] Error sending transaction:', error);
+    throw error;
+  }
+};
+
 export default function MiniKitProvider({
   children,
   appId
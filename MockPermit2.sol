@@ -0,0 +1,31 @@
+// contracts/test/MockPermit2.sol
+// SPDX-License-Identifier: MIT
+// Permit2 stand-in for a local chain. It enforces the permit's amount, deadline and nonce
+// but not the signature, which World App produces and the real Permit2 checks.
+pragma solidity ^0.8.20;
+
+import {ISignatureTransfer} from "../AllOrNothingEscrow.sol";
+
+interface ITransferFrom {
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+contract MockPermit2 {
+    mapping(address => mapping(uint256 => bool)) public nonceUsed;
+
+    function permitTransferFrom(
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        ISignatureTransfer.SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata
+    ) external {
+        require(block.timestamp <= permit.deadline, "expired");
+        require(transferDetails.requestedAmount <= permit.permitted.amount, "amount");
+        require(!nonceUsed[owner][permit.nonce], "nonce");
+        nonceUsed[owner][permit.nonce] = true;
+        require(
+            ITransferFrom(permit.permitted.token).transferFrom(owner, transferDetails.to, transferDetails.requestedAmount),
+            "transfer"
+        );
+    }
+}
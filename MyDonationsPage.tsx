@@ -0,0 +1,274 @@
+// src/pages/MyDonationsPage.tsx
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../components/AuthContext';
+import { campaignService, UserDonation } from '../services/CampaignService';
+import { wldPaymentService } from '../services/WLDPaymentService';
+import { DonationStatusBadge } from '../components/DonationStatusBadge';
+import { formatTokenAmount, sumAmounts, toBigInt } from '../utils/tokenAmount';
+import { createReceipt, printReceipts, buildReceiptsPdf } from '../utils/receipt';
+import { downloadBlob } from '../utils/download';
+
+// Newest first, with the confirmed total given up to and including each donation
+interface DonationRow {
+  donation: UserDonation;
+  runningTotal: bigint;
+}
+
+const buildRows = (donations: UserDonation[]): DonationRow[] => {
+  const oldestFirst = [...donations].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  let total = 0n;
+  const rows = oldestFirst.map(donation => {
+    if ((donation.status ?? 'confirmed') === 'confirmed') {
+      total += toBigInt(donation.amount);
+    }
+    return { donation, runningTotal: total };
+  });
+  return rows.reverse();
+};
+
+const MyDonationsPage: React.FC = () => {
+  const { walletAddress } = useAuth();
+  const [donations, setDonations] = useState<UserDonation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Bulk receipt export range (yyyy-mm-dd, inclusive)
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDonations = async () => {
+      if (!walletAddress) return;
+
+      setLoading(true);
+      const result = await campaignService.fetchUserDonations(walletAddress);
+      if (result.success && result.donations) {
+        setDonations(result.donations);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load your donations');
+      }
+      setLoading(false);
+    };
+
+    fetchDonations();
+  }, [walletAddress]);
+
+  const receiptsInRange = () => {
+    const from = exportFrom ? new Date(`${exportFrom}T00:00:00`).getTime() : -Infinity;
+    const to = exportTo ? new Date(`${exportTo}T23:59:59.999`).getTime() : Infinity;
+    return donations
+      .filter(d => d.status === 'confirmed')
+      .filter(d => {
+        const createdAt = new Date(d.createdAt).getTime();
+        return createdAt >= from && createdAt <= to;
+      })
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(d => createReceipt(d, d.campaignId, d.campaignTitle));
+  };
+
+  const handleExport = (format: 'pdf' | 'print') => {
+    setExportError(null);
+    const receipts = receiptsInRange();
+    if (receipts.length === 0) {
+      setExportError('No confirmed donations in this date range.');
+      return;
+    }
+    try {
+      if (format === 'pdf') {
+        const range = `${exportFrom || 'start'}_${exportTo || 'today'}`;
+        downloadBlob(buildReceiptsPdf(receipts), `worldfund-receipts-${range}.pdf`);
+      } else {
+        printReceipts(receipts);
+      }
+    } catch (err: any) {
+      setExportError(err.message || 'Export failed');
+    }
+  };
+
+  const rows = buildRows(donations);
+  const confirmedTotal = sumAmounts(donations.filter(d => (d.status ?? 'confirmed') === 'confirmed').map(d => d.amount));
+  const pendingTotal = sumAmounts(donations.filter(d => d.status === 'pending').map(d => d.amount));
+  const campaignsSupported = new Set(
+    donations.filter(d => d.status !== 'failed').map(d => d.campaignId)
+  ).size;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <header className="bg-white shadow-sm mb-6">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <Link to="/" className="text-xl font-bold text-blue-600">
+            WorldFund
+          </Link>
+          <Link to="/dashboard" className="text-gray-600 hover:text-gray-900">
+            Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">My Donations</h1>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            <p className="mt-2 text-gray-600">Loading your donations...</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="bg-white p-4 rounded-lg shadow">
+                <p className="text-sm text-gray-500 mb-1">Total Given</p>
+                <p className="text-2xl font-bold text-blue-600">{formatTokenAmount(confirmedTotal)} WLD</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow">
+                <p className="text-sm text-gray-500 mb-1">Pending</p>
+                <p className="text-2xl font-bold text-yellow-600">{formatTokenAmount(pendingTotal)} WLD</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow">
+                <p className="text-sm text-gray-500 mb-1">Campaigns Supported</p>
+                <p className="text-2xl font-bold text-purple-600">{campaignsSupported}</p>
+              </div>
+            </div>
+
+            <div className="bg-white p-4 rounded-lg shadow mb-6">
+              <h2 className="text-sm font-semibold text-gray-800 mb-3">Export Receipts</h2>
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={exportFrom}
+                    onChange={e => setExportFrom(e.target.value)}
+                    className="px-3 py-1.5 border rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={exportTo}
+                    onChange={e => setExportTo(e.target.value)}
+                    className="px-3 py-1.5 border rounded-md text-sm"
+                  />
+                </div>
+                <button
+                  onClick={() => handleExport('pdf')}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-700"
+                >
+                  Download PDF
+                </button>
+                <button
+                  onClick={() => handleExport('print')}
+                  className="border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm hover:bg-gray-50"
+                >
+                  Print
+                </button>
+              </div>
+              {exportError && <p className="mt-2 text-xs text-red-600">{exportError}</p>}
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              {rows.length === 0 ? (
+                <div className="p-8 text-center">
+                  <p className="text-gray-600 mb-4">You haven't made any donations yet.</p>
+                  <Link
+                    to="/campaigns"
+                    className="inline-block bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Browse Campaigns
+                  </Link>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Campaign
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Amount
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Date
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Transaction
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Running Total
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Receipt
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {rows.map(({ donation, runningTotal }) => {
+                        const txUrl = donation.txHash ? wldPaymentService.getTransactionUrl(donation.txHash) : null;
+                        return (
+                          <tr key={donation.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <Link to={`/campaigns/${donation.campaignId}`} className="text-blue-600 hover:text-blue-900">
+                                {donation.campaignTitle || 'Campaign'}
+                              </Link>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <span className={donation.status === 'failed' ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                                {formatTokenAmount(donation.amount)} WLD
+                              </span>
+                              <DonationStatusBadge donation={donation} />
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {new Date(donation.createdAt).toLocaleString()}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">
+                              {txUrl ? (
+                                <a href={txUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-900">
+                                  {donation.txHash.slice(0, 10)}...
+                                </a>
+                              ) : donation.txHash ? (
+                                <span className="text-gray-500">{donation.txHash.slice(0, 10)}...</span>
+                              ) : (
+                                <span className="text-gray-400">—</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                              {formatTokenAmount(runningTotal)} WLD
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              {donation.status === 'confirmed' ? (
+                                <Link
+                                  to={`/receipts/${donation.campaignId}/${donation.id}`}
+                                  className="text-blue-600 hover:text-blue-900"
+                                >
+                                  View
+                                </Link>
+                              ) : (
+                                <span className="text-gray-400">—</span>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MyDonationsPage;
@@ -0,0 +1,197 @@
+// src/pages/MyPledgesPage.tsx
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../components/AuthContext';
+import { pledgeService, Pledge, isPledgeDue, PLEDGE_INTERVAL_LABELS } from '../services/PledgeService';
+import { formatTokenAmount } from '../utils/tokenAmount';
+
+const MyPledgesPage: React.FC = () => {
+  const { walletAddress } = useAuth();
+  const [pledges, setPledges] = useState<Pledge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPledges = async () => {
+      if (!walletAddress) return;
+
+      setLoading(true);
+      const result = await pledgeService.fetchUserPledges(walletAddress);
+      if (result.success && result.pledges) {
+        setPledges(result.pledges);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load your pledges');
+      }
+      setLoading(false);
+    };
+
+    fetchPledges();
+  }, [walletAddress]);
+
+  const handleCancel = async (pledge: Pledge) => {
+    if (!window.confirm(`Cancel your ${formatTokenAmount(pledge.amount)} WLD pledge to ${pledge.campaignTitle}?`)) {
+      return;
+    }
+    setCancellingId(pledge.id);
+    const result = await pledgeService.cancelPledge(pledge.id);
+    if (result.success) {
+      setPledges(prev => prev.map(p => (
+        p.id === pledge.id
+          ? result.pledge || { ...p, status: 'cancelled', cancelledAt: new Date().toISOString() }
+          : p
+      )));
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to cancel pledge');
+    }
+    setCancellingId(null);
+  };
+
+  const active = pledges
+    .filter(p => p.status === 'active')
+    .sort((a, b) => new Date(a.nextDueAt).getTime() - new Date(b.nextDueAt).getTime());
+  const cancelled = pledges.filter(p => p.status === 'cancelled');
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <header className="bg-white shadow-sm mb-6">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <Link to="/" className="text-xl font-bold text-blue-600">
+            WorldFund
+          </Link>
+          <Link to="/dashboard" className="text-gray-600 hover:text-gray-900">
+            Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Recurring Donations</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Pledges are never charged automatically. When a payment is due, pay it from here in one tap.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            <p className="mt-2 text-gray-600">Loading your pledges...</p>
+          </div>
+        ) : active.length === 0 && cancelled.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <p className="text-gray-600 mb-4">
+              You have no recurring donations. Choose "Make this a recurring donation" when you donate to set one up.
+            </p>
+            <Link
+              to="/campaigns"
+              className="inline-block bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Browse Campaigns
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Campaign
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Amount
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Interval
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Next Due
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {active.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                          No active pledges.
+                        </td>
+                      </tr>
+                    ) : active.map(pledge => {
+                      const due = isPledgeDue(pledge);
+                      return (
+                        <tr key={pledge.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <Link to={`/campaigns/${pledge.campaignId}`} className="text-blue-600 hover:text-blue-900">
+                              {pledge.campaignTitle || 'Campaign'}
+                            </Link>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatTokenAmount(pledge.amount)} WLD
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {PLEDGE_INTERVAL_LABELS[pledge.interval]}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <span className={due ? 'text-orange-600 font-medium' : 'text-gray-500'}>
+                              {new Date(pledge.nextDueAt).toLocaleDateString()}
+                              {due && ' (due)'}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            {due && (
+                              <Link
+                                to={`/campaigns/${pledge.campaignId}?pledge=${pledge.id}`}
+                                className="text-blue-600 hover:text-blue-900 mr-3"
+                              >
+                                Pay now
+                              </Link>
+                            )}
+                            <button
+                              onClick={() => handleCancel(pledge)}
+                              disabled={cancellingId === pledge.id}
+                              className="text-red-600 hover:text-red-900 disabled:text-gray-400"
+                            >
+                              {cancellingId === pledge.id ? 'Cancelling...' : 'Cancel'}
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {cancelled.length > 0 && (
+              <div className="bg-white rounded-lg shadow p-4">
+                <h2 className="text-sm font-semibold text-gray-800 mb-3">Cancelled</h2>
+                <ul className="space-y-1 text-sm text-gray-500">
+                  {cancelled.map(pledge => (
+                    <li key={pledge.id}>
+                      {formatTokenAmount(pledge.amount)} WLD {PLEDGE_INTERVAL_LABELS[pledge.interval].toLowerCase()} to{' '}
+                      {pledge.campaignTitle || 'Campaign'}
+                      {pledge.cancelledAt && ` · cancelled ${new Date(pledge.cancelledAt).toLocaleDateString()}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MyPledgesPage;
@@ -0,0 +1,249 @@
+// src/services/PaymentIntentService.ts
+// Payment intents: reserve a reference for a donation, then bind exactly one transaction to it
+
+import { authService } from './AuthService';
+import { TokenAmount } from '../utils/tokenAmount';
+import type { DonorDisplayOptions } from '../utils/donorDisplay';
+
+export enum PaymentIntentStatus {
+  CREATED = 'created',
+  BOUND = 'bound',
+  EXPIRED = 'expired'
+}
+
+export interface PaymentIntent {
+  id: string;
+  campaignId: string;
+  amount: TokenAmount;
+  reference: string;
+  idempotencyKey: string;
+  status: PaymentIntentStatus;
+  txHash?: string;
+  // Donation recorded when the intent was bound
+  donationId?: string;
+  // Issued when the intent includes a platform tip; the tip is paid and bound separately
+  tipReference?: string;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+// Stored with the intent and copied onto the donation when it is bound
+export interface IntentDetails {
+  display?: DonorDisplayOptions;
+  // Set when the donation is a payment against a recurring pledge
+  pledgeId?: string;
+  // World ID nullifier of the donor; the backend checks it against the session's verification
+  nullifierHash?: string;
+  // Platform tip on top of the donation amount
+  tipPercent?: number;
+  tipAmount?: TokenAmount;
+  // Reward tier the donor chose; the backend reserves one unit of limited tiers
+  rewardTierId?: string;
+}
+
+// Error codes callers can branch on to show a specific state
+export type PaymentIntentErrorCode = 'duplicate_transaction' | 'intent_expired';
+
+export interface BindResult {
+  success: boolean;
+  intent?: PaymentIntent;
+  // True when the transaction had already been bound to this intent and the earlier result was returned
+  reconciled?: boolean;
+  error?: string;
+  errorCode?: PaymentIntentErrorCode;
+}
+
+// txHash → intent id, for transactions this browser has already bound
+const BOUND_TX_KEY = 'worldfund_bound_transactions';
+
+const getBoundTransactions = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(BOUND_TX_KEY) || '{}');
+  } catch (error) {
+    console.error('[PaymentIntentService] Error reading bound transactions:', error);
+    return {};
+  }
+};
+
+const storeBoundTransaction = (txHash: string, intentId: string): void => {
+  try {
+    const bound = getBoundTransactions();
+    bound[txHash.toLowerCase()] = intentId;
+    localStorage.setItem(BOUND_TX_KEY, JSON.stringify(bound));
+  } catch (error) {
+    console.error('[PaymentIntentService] Error storing bound transaction:', error);
+  }
+};
+
+class PaymentIntentService {
+  private static instance: PaymentIntentService;
+  private API_BASE: string;
+  private API_KEY?: string;
+
+  private constructor() {
+    const envApi = import.meta.env.VITE_AMPLIFY_API || import.meta.env.VITE_APP_BACKEND_API_URL;
+    if (envApi) {
+      this.API_BASE = envApi;
+    } else {
+      console.warn('[PaymentIntentService] No VITE_AMPLIFY_API or VITE_APP_BACKEND_API_URL set; defaulting to /api');
+      this.API_BASE = '/api';
+    }
+    this.API_KEY = import.meta.env.VITE_WORLD_APP_API || import.meta.env.VITE_APP_BACKEND_API_KEY;
+  }
+
+  /** Get singleton instance */
+  public static getInstance(): PaymentIntentService {
+    if (!PaymentIntentService.instance) {
+      PaymentIntentService.instance = new PaymentIntentService();
+    }
+    return PaymentIntentService.instance;
+  }
+
+  /** Build headers including auth token, API key and idempotency key */
+  private async getHeaders(idempotencyKey?: string): Promise<HeadersInit> {
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    };
+    const { token } = await authService.checkAuthStatus();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    if (this.API_KEY) {
+      headers['x-api-key'] = this.API_KEY;
+    }
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+    return headers;
+  }
+
+  /** Create an intent for a campaign and amount; returns its reference and idempotency key */
+  public async createIntent(
+    campaignId: string,
+    amount: TokenAmount,
+    details: IntentDetails = {}
+  ): Promise<{ success: boolean; intent?: PaymentIntent; error?: string }> {
+    try {
+      const idempotencyKey = crypto.randomUUID();
+      const headers = await this.getHeaders(idempotencyKey);
+      const res = await fetch(`${this.API_BASE}/payment-intents`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          campaignId,
+          amount,
+          ...details.display,
+          pledgeId: details.pledgeId,
+          nullifierHash: details.nullifierHash,
+          tipPercent: details.tipPercent,
+          tipAmount: details.tipAmount,
+          rewardTierId: details.rewardTierId,
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to create payment intent (${res.status})`);
+      }
+      const intent = body as PaymentIntent;
+      if (!intent.id || !intent.reference) {
+        throw new Error('Payment intent missing from response');
+      }
+      return { success: true, intent: { ...intent, idempotencyKey: intent.idempotencyKey || idempotencyKey } };
+    } catch (error: any) {
+      console.error('[PaymentIntentService] createIntent error:', error);
+      return { success: false, error: error.message || 'Failed to create payment intent' };
+    }
+  }
+
+  /**
+   * Bind a transaction to an intent. Binding is idempotent per intent: repeating it with the
+   * same transaction reconciles to the earlier result, while a transaction already bound
+   * elsewhere is rejected as a duplicate.
+   */
+  public async bindTransaction(
+    intent: PaymentIntent,
+    binding: { txHash?: string; [key: string]: unknown }
+  ): Promise<BindResult> {
+    const txHash = binding.txHash?.toLowerCase();
+    if (txHash) {
+      const boundIntentId = getBoundTransactions()[txHash];
+      if (boundIntentId && boundIntentId !== intent.id) {
+        return {
+          success: false,
+          error: 'This transaction has already been recorded for another donation.',
+          errorCode: 'duplicate_transaction',
+        };
+      }
+    }
+
+    try {
+      const headers = await this.getHeaders(intent.idempotencyKey);
+      const res = await fetch(`${this.API_BASE}/payment-intents/${intent.id}/bind`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(binding),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (res.status === 409) {
+        return {
+          success: false,
+          error: (body as any).message || 'This transaction has already been recorded.',
+          errorCode: 'duplicate_transaction',
+        };
+      }
+      if (res.status === 410) {
+        return {
+          success: false,
+          error: (body as any).message || 'This payment has expired. Please start a new donation.',
+          errorCode: 'intent_expired',
+        };
+      }
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to record donation (${res.status})`);
+      }
+
+      const boundIntent = (body as any).intent as PaymentIntent | undefined;
+      const boundTxHash = txHash || boundIntent?.txHash;
+      if (boundTxHash) {
+        storeBoundTransaction(boundTxHash, intent.id);
+      }
+      return {
+        success: true,
+        intent: boundIntent || { ...intent, status: PaymentIntentStatus.BOUND, txHash: binding.txHash },
+        reconciled: Boolean((body as any).reconciled),
+      };
+    } catch (error: any) {
+      console.error('[PaymentIntentService] bindTransaction error:', error);
+      return { success: false, error: error.message || 'Failed to record donation' };
+    }
+  }
+
+  /**
+   * Record the platform tip transfer for an intent. The backend adds it to the platform
+   * revenue ledger, linked to the donation, and leaves the campaign total untouched.
+   */
+  public async bindTip(
+    intent: PaymentIntent,
+    binding: { txHash?: string; [key: string]: unknown }
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const headers = await this.getHeaders(`${intent.idempotencyKey}-tip`);
+      const res = await fetch(`${this.API_BASE}/payment-intents/${intent.id}/tip`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(binding),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to record tip (${res.status})`);
+      }
+      return { success: true };
+    } catch (error: any) {
+      console.error('[PaymentIntentService] bindTip error:', error);
+      return { success: false, error: error.message || 'Failed to record tip' };
+    }
+  }
+}
+
+export const paymentIntentService = PaymentIntentService.getInstance();
@@ -0,0 +1,51 @@
+// src/components/PledgeReminders.tsx
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+import { pledgeService, Pledge, isPledgeDue, PLEDGE_INTERVAL_LABELS } from '../services/PledgeService';
+import { formatTokenAmount } from '../utils/tokenAmount';
+
+/** Banner listing the signed-in donor's due pledges, each linking to a prefilled payment */
+export const PledgeReminders: React.FC = () => {
+  const { walletAddress } = useAuth();
+  const [duePledges, setDuePledges] = useState<Pledge[]>([]);
+
+  useEffect(() => {
+    if (!walletAddress) return;
+    let cancelled = false;
+    pledgeService.fetchUserPledges(walletAddress).then(result => {
+      if (!cancelled && result.success && result.pledges) {
+        setDuePledges(result.pledges.filter(pledge => isPledgeDue(pledge)));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress]);
+
+  if (duePledges.length === 0) return null;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+      <h2 className="text-sm font-semibold text-blue-800 mb-2">
+        {duePledges.length === 1 ? 'A recurring donation is due' : `${duePledges.length} recurring donations are due`}
+      </h2>
+      <ul className="space-y-2">
+        {duePledges.map(pledge => (
+          <li key={pledge.id} className="flex flex-wrap items-center justify-between gap-2 text-sm text-blue-900">
+            <span>
+              {formatTokenAmount(pledge.amount)} WLD to {pledge.campaignTitle || 'Campaign'}
+              <span className="text-blue-600"> · {PLEDGE_INTERVAL_LABELS[pledge.interval]}, due {new Date(pledge.nextDueAt).toLocaleDateString()}</span>
+            </span>
+            <Link
+              to={`/campaigns/${pledge.campaignId}?pledge=${pledge.id}`}
+              className="bg-blue-600 text-white px-3 py-1 rounded-md text-xs hover:bg-blue-700"
+            >
+              Pay now
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
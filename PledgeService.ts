@@ -0,0 +1,151 @@
+// src/services/PledgeService.ts
+// Recurring pledges: a donor commits to give a fixed amount to a campaign every interval.
+// Nothing is charged automatically; each payment is a normal donation tagged with the pledge id,
+// and the backend moves nextDueAt forward when that donation is recorded.
+
+import { authService } from './AuthService';
+import { TokenAmount } from '../utils/tokenAmount';
+
+export type PledgeInterval = 'monthly' | 'quarterly' | 'yearly';
+
+export type PledgeStatus = 'active' | 'cancelled';
+
+export const PLEDGE_INTERVAL_LABELS: Record<PledgeInterval, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Every 3 months',
+  yearly: 'Yearly',
+};
+
+export interface Pledge {
+  id: string;
+  campaignId: string;
+  campaignTitle: string;
+  donor: string;
+  amount: TokenAmount;
+  interval: PledgeInterval;
+  status: PledgeStatus;
+  nextDueAt: string;
+  // Most recent payment made against the pledge
+  lastDonationId?: string;
+  lastPaidAt?: string;
+  createdAt: string;
+  cancelledAt?: string;
+}
+
+export interface PledgePayload {
+  campaignId: string;
+  amount: TokenAmount;
+  interval: PledgeInterval;
+  // Donation that made the first payment; the next one is due an interval after it
+  initialDonationId?: string;
+}
+
+/** An active pledge is due once its next payment date has passed */
+export const isPledgeDue = (pledge: Pledge, now: number = Date.now()): boolean =>
+  pledge.status === 'active' && new Date(pledge.nextDueAt).getTime() <= now;
+
+class PledgeService {
+  private static instance: PledgeService;
+  private API_BASE: string;
+  private API_KEY?: string;
+
+  private constructor() {
+    const envApi = import.meta.env.VITE_AMPLIFY_API || import.meta.env.VITE_APP_BACKEND_API_URL;
+    if (envApi) {
+      this.API_BASE = envApi;
+    } else {
+      console.warn('[PledgeService] No VITE_AMPLIFY_API or VITE_APP_BACKEND_API_URL set; defaulting to /api');
+      this.API_BASE = '/api';
+    }
+    this.API_KEY = import.meta.env.VITE_WORLD_APP_API || import.meta.env.VITE_APP_BACKEND_API_KEY;
+  }
+
+  /** Get singleton instance */
+  public static getInstance(): PledgeService {
+    if (!PledgeService.instance) {
+      PledgeService.instance = new PledgeService();
+    }
+    return PledgeService.instance;
+  }
+
+  /** Build headers including auth token and API key */
+  private async getHeaders(): Promise<HeadersInit> {
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    };
+    const { token } = await authService.checkAuthStatus();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    if (this.API_KEY) {
+      headers['x-api-key'] = this.API_KEY;
+    }
+    return headers;
+  }
+
+  /** Create a pledge for the signed-in donor */
+  public async createPledge(
+    payload: PledgePayload
+  ): Promise<{ success: boolean; pledge?: Pledge; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/pledges`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to create pledge (${res.status})`);
+      }
+      return { success: true, pledge: body as Pledge };
+    } catch (error: any) {
+      console.error('[PledgeService] createPledge error:', error);
+      return { success: false, error: error.message || 'Failed to create pledge' };
+    }
+  }
+
+  /** Fetch every pledge made by a wallet, including cancelled ones */
+  public async fetchUserPledges(
+    walletAddress: string
+  ): Promise<{ success: boolean; pledges?: Pledge[]; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/users/${walletAddress}/pledges`, {
+        method: 'GET',
+        headers,
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to fetch pledges (${res.status})`);
+      }
+      const data = await res.json();
+      return { success: true, pledges: data.pledges || [] };
+    } catch (error: any) {
+      console.error('[PledgeService] fetchUserPledges error:', error);
+      return { success: false, error: error.message || 'Failed to fetch pledges' };
+    }
+  }
+
+  /** Cancel a pledge; donations already made are unaffected */
+  public async cancelPledge(
+    id: string
+  ): Promise<{ success: boolean; pledge?: Pledge; error?: string }> {
+    try {
+      const headers = await this.getHeaders();
+      const res = await fetch(`${this.API_BASE}/pledges/${id}/cancel`, {
+        method: 'POST',
+        headers,
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error((body as any).message || `Failed to cancel pledge (${res.status})`);
+      }
+      return { success: true, pledge: body as Pledge };
+    } catch (error: any) {
+      console.error('[PledgeService] cancelPledge error:', error);
+      return { success: false, error: error.message || 'Failed to cancel pledge' };
+    }
+  }
+}
+
+export const pledgeService = PledgeService.getInstance();
@@ -0,0 +1,144 @@
+// src/pages/ReceiptPage.tsx
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { campaignService } from '../services/CampaignService';
+import { formatTokenAmount } from '../utils/tokenAmount';
+import { ReceiptData, createReceipt, printReceipts, buildReceiptsPdf } from '../utils/receipt';
+import { downloadBlob } from '../utils/download';
+
+const ReceiptPage: React.FC = () => {
+  const { campaignId, donationId } = useParams<{ campaignId: string; donationId: string }>();
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReceipt = async () => {
+      if (!campaignId || !donationId) return;
+      setLoading(true);
+      const [donationResult, campaignResult] = await Promise.all([
+        campaignService.fetchDonation(campaignId, donationId),
+        campaignService.fetchCampaign(campaignId),
+      ]);
+
+      if (!donationResult.success || !donationResult.donation) {
+        setError(donationResult.error || 'Donation not found');
+      } else if (donationResult.donation.status !== 'confirmed') {
+        setError('A receipt is available once the donation has been confirmed on-chain.');
+      } else {
+        setReceipt(createReceipt(
+          donationResult.donation,
+          campaignId,
+          campaignResult.campaign?.title || 'Campaign'
+        ));
+      }
+      setLoading(false);
+    };
+
+    fetchReceipt();
+  }, [campaignId, donationId]);
+
+  const handlePrint = () => {
+    if (!receipt) return;
+    try {
+      printReceipts([receipt]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!receipt) return;
+    downloadBlob(buildReceiptsPdf([receipt]), `worldfund-receipt-${receipt.donationId}.pdf`);
+  };
+
+  if (loading) {
+    return <div className="text-center py-10">Loading receipt...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        <Link to="/my-donations" className="text-sm text-blue-600 hover:text-blue-800">
+          &larr; My Donations
+        </Link>
+
+        {error || !receipt ? (
+          <div className="mt-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md">
+            {error || 'Receipt not available'}
+          </div>
+        ) : (
+          <div className="mt-4 bg-white rounded-lg shadow-md p-6">
+            <h1 className="text-xl font-bold text-gray-900 mb-1">Donation Receipt</h1>
+            <p className="text-sm text-gray-500 mb-6">Receipt ID: {receipt.donationId}</p>
+
+            <dl className="space-y-3 text-sm">
+              <div>
+                <dt className="text-gray-500">Campaign</dt>
+                <dd>
+                  <Link to={`/campaigns/${receipt.campaignId}`} className="text-blue-600 hover:text-blue-800">
+                    {receipt.campaignTitle}
+                  </Link>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Amount</dt>
+                <dd className="font-medium">{formatTokenAmount(receipt.amount, { maxFractionDigits: 18 })} WLD</dd>
+              </div>
+              {receipt.tipAmount && (
+                <div>
+                  <dt className="text-gray-500">Platform tip</dt>
+                  <dd>{formatTokenAmount(receipt.tipAmount, { maxFractionDigits: 18 })} WLD to WorldFund</dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-gray-500">Date</dt>
+                <dd>{new Date(receipt.createdAt).toLocaleString()}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Donor wallet</dt>
+                <dd className="font-mono break-all">{receipt.donor}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Transaction</dt>
+                <dd className="font-mono break-all">{receipt.txHash}</dd>
+              </div>
+              {receipt.verificationUrl && (
+                <div>
+                  <dt className="text-gray-500">Verify</dt>
+                  <dd>
+                    <a
+                      href={receipt.verificationUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:text-blue-800 break-all"
+                    >
+                      {receipt.verificationUrl}
+                    </a>
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            <div className="mt-6 flex space-x-3">
+              <button
+                onClick={handlePrint}
+                className="flex-1 py-2 px-4 rounded-md text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Print
+              </button>
+              <button
+                onClick={handleDownload}
+                className="flex-1 py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                Download PDF
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptPage;
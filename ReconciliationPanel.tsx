@@ -0,0 +1,221 @@
+// src/components/ReconciliationPanel.tsx
+import React, { useState } from 'react';
+import { Campaign } from '../services/CampaignService';
+import {
+  reconciliationService,
+  ReconciliationReport,
+  ReconciliationEntry,
+  ReconciliationFlag,
+} from '../services/ReconciliationService';
+import { worldChainRpc } from '../services/WorldChainRpc';
+import { formatTokenAmount } from '../utils/tokenAmount';
+
+const FLAG_LABELS: Record<ReconciliationFlag, string> = {
+  unrecorded: 'No donation recorded',
+  unconfirmed: 'Waiting for confirmations',
+  below_minimum: 'Below campaign minimum',
+  amount_mismatch: 'Amount differs from recorded donation',
+  record_failed: 'Could not be recorded',
+};
+
+const entryLabel = (entry: ReconciliationEntry): string => {
+  switch (entry.outcome) {
+    case 'matched':
+      return 'Matched';
+    case 'recorded':
+      return 'Recorded now';
+    case 'missing_onchain':
+      return 'Recorded, no transfer found';
+    default:
+      return entry.flag ? FLAG_LABELS[entry.flag] : 'Flagged';
+  }
+};
+
+const entryClass = (entry: ReconciliationEntry): string =>
+  entry.outcome === 'matched' ? 'bg-green-100 text-green-800' :
+  entry.outcome === 'recorded' ? 'bg-blue-100 text-blue-800' :
+  'bg-yellow-100 text-yellow-800';
+
+const shorten = (value: string): string => `${value.slice(0, 8)}...${value.slice(-6)}`;
+
+export const ReconciliationPanel: React.FC<{ campaign: Campaign; onRecorded?: () => void }> = ({
+  campaign,
+  onRecorded,
+}) => {
+  const [fromBlock, setFromBlock] = useState('');
+  const [toBlock, setToBlock] = useState('');
+  const [autoRecord, setAutoRecord] = useState(false);
+  const [rpcUrl, setRpcUrl] = useState(worldChainRpc.getRpcUrl());
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+
+  const handleRun = async () => {
+    if ((fromBlock && !/^\d+$/.test(fromBlock)) || (toBlock && !/^\d+$/.test(toBlock))) {
+      setError('Block numbers must be whole numbers');
+      return;
+    }
+
+    setRunning(true);
+    setError(null);
+
+    const result = await reconciliationService.reconcileCampaign(campaign, {
+      fromBlock: fromBlock ? BigInt(fromBlock) : undefined,
+      toBlock: toBlock ? BigInt(toBlock) : undefined,
+      autoRecord,
+      // Local development can point the scan at a dev chain such as anvil
+      rpcUrl: import.meta.env.DEV && rpcUrl && rpcUrl !== worldChainRpc.getRpcUrl() ? rpcUrl : undefined,
+    });
+
+    if (result.success && result.report) {
+      setReport(result.report);
+      if (result.report.entries.some(e => e.outcome === 'recorded')) {
+        onRecorded?.();
+      }
+    } else {
+      setError(result.error || 'Reconciliation failed');
+    }
+    setRunning(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow mt-6">
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold text-gray-800">Reconciliation: {campaign.title}</h2>
+        <p className="text-sm text-gray-500">
+          Compares WLD transfers to the payout address with recorded donations.
+        </p>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">From block (optional)</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={fromBlock}
+            onChange={e => setFromBlock(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md text-sm"
+            placeholder="Recent blocks"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">To block (optional)</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={toBlock}
+            onChange={e => setToBlock(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md text-sm"
+            placeholder="Latest"
+          />
+        </div>
+        {import.meta.env.DEV && (
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">RPC URL (dev only)</label>
+            <input
+              type="url"
+              value={rpcUrl}
+              onChange={e => setRpcUrl(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md text-sm font-mono"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 pb-4 flex items-center justify-between">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={autoRecord}
+            onChange={e => setAutoRecord(e.target.checked)}
+            className="mr-2"
+          />
+          Record confirmed transfers that have no donation
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={running}
+          className={`px-4 py-2 rounded-md text-white text-sm font-medium ${
+            running ? 'bg-gray-400' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {running ? 'Scanning...' : 'Run reconciliation'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="border-t">
+          <div className="p-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Matched</p>
+              <p className="font-semibold text-green-700">{formatTokenAmount(report.totals.matched)} WLD</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Recorded now</p>
+              <p className="font-semibold text-blue-700">{formatTokenAmount(report.totals.recorded)} WLD</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Flagged</p>
+              <p className="font-semibold text-yellow-700">{formatTokenAmount(report.totals.flagged)} WLD</p>
+            </div>
+            <div>
+              <p className="text-gray-500">No transfer found</p>
+              <p className="font-semibold text-yellow-700">{formatTokenAmount(report.totals.missing_onchain)} WLD</p>
+            </div>
+          </div>
+          <p className="px-4 pb-2 text-xs text-gray-500">
+            Blocks {report.fromBlock}–{report.toBlock} · {report.payoutAddress} · {report.rpcUrl}
+          </p>
+
+          {report.entries.length === 0 ? (
+            <p className="p-4 text-sm text-gray-600">No transfers or donations in this range.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Transaction</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">From</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Amount</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Block</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.entries.map((entry, index) => {
+                    const txHash = entry.transfer?.txHash || entry.donation?.txHash || '';
+                    return (
+                      <tr key={`${txHash}-${index}`}>
+                        <td className="px-4 py-2 font-mono">{txHash ? shorten(txHash) : '—'}</td>
+                        <td className="px-4 py-2 font-mono">
+                          {shorten(entry.transfer?.from || entry.donation?.donor || '')}
+                        </td>
+                        <td className="px-4 py-2">
+                          {formatTokenAmount(entry.transfer?.amount ?? entry.donation?.amount ?? '0')} WLD
+                        </td>
+                        <td className="px-4 py-2">{entry.transfer?.blockNumber ?? '—'}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-semibold ${entryClass(entry)}`}>
+                            {entryLabel(entry)}
+                          </span>
+                          {entry.error && <p className="text-xs text-red-600 mt-1">{entry.error}</p>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
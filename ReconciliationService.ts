@@ -0,0 +1,292 @@
+// src/services/ReconciliationService.ts
+// Reconcile WLD transfers to a campaign's payout address against its recorded donations.
+// Catches donors who sent WLD but never submitted the transaction hash.
+
+import { authService } from './AuthService';
+import {
+  worldChainRpc,
+  WorldChainRpcClient,
+  decodeTransferLog,
+  addressToTopic,
+  ERC20_TRANSFER_TOPIC,
+} from './WorldChainRpc';
+import { WLD_TOKEN_ADDRESS, MIN_CONFIRMATIONS, DEFAULT_MIN_AMOUNT } from './WLDPaymentService';
+import { campaignService, Campaign, Donation } from './CampaignService';
+import { ESCROW_CONTRACT_ADDRESS } from './EscrowService';
+import { TokenAmount, toBigInt, sumAmounts } from '../utils/tokenAmount';
+import { validatePayoutAddress } from '../utils/address';
+
+// Blocks scanned when no range is given (~28 hours at 2s blocks)
+const DEFAULT_SCAN_BLOCKS = BigInt(import.meta.env.VITE_RECONCILE_BLOCK_RANGE || 50000);
+
+// Most providers cap eth_getLogs ranges; larger scans are split into chunks of this size
+const LOG_CHUNK_BLOCKS = 10000n;
+
+export type ReconciliationOutcome = 'matched' | 'recorded' | 'flagged' | 'missing_onchain';
+
+export type ReconciliationFlag =
+  | 'unrecorded'
+  | 'unconfirmed'
+  | 'below_minimum'
+  | 'amount_mismatch'
+  | 'record_failed';
+
+// All WLD transferred to the payout address in one transaction
+export interface OnChainTransfer {
+  txHash: string;
+  from: string;
+  amount: TokenAmount;
+  blockNumber: number;
+  confirmations: number;
+}
+
+export interface ReconciliationEntry {
+  outcome: ReconciliationOutcome;
+  flag?: ReconciliationFlag;
+  transfer?: OnChainTransfer;
+  donation?: Donation;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  campaignId: string;
+  payoutAddress: string;
+  rpcUrl: string;
+  fromBlock: number;
+  toBlock: number;
+  entries: ReconciliationEntry[];
+  // Totals in base units per outcome
+  totals: Record<ReconciliationOutcome, TokenAmount>;
+  generatedAt: string;
+}
+
+export interface ReconciliationOptions {
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  // Record unmatched, confirmed transfers as donations instead of only flagging them
+  autoRecord?: boolean;
+  // Scan another endpoint, e.g. a local dev chain, without changing the shared RPC client
+  rpcUrl?: string;
+}
+
+class ReconciliationService {
+  private static instance: ReconciliationService;
+  private API_BASE: string;
+  private API_KEY?: string;
+
+  private constructor() {
+    const envApi = import.meta.env.VITE_AMPLIFY_API || import.meta.env.VITE_APP_BACKEND_API_URL;
+    if (envApi) {
+      this.API_BASE = envApi;
+    } else {
+      console.warn('[ReconciliationService] No VITE_AMPLIFY_API or VITE_APP_BACKEND_API_URL set; defaulting to /api');
+      this.API_BASE = '/api';
+    }
+    this.API_KEY = import.meta.env.VITE_WORLD_APP_API || import.meta.env.VITE_APP_BACKEND_API_KEY;
+  }
+
+  /** Get singleton instance */
+  public static getInstance(): ReconciliationService {
+    if (!ReconciliationService.instance) {
+      ReconciliationService.instance = new ReconciliationService();
+    }
+    return ReconciliationService.instance;
+  }
+
+  /** Build headers including auth token and API key */
+  private async getHeaders(): Promise<HeadersInit> {
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    };
+    const { token } = await authService.checkAuthStatus();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    if (this.API_KEY) {
+      headers['x-api-key'] = this.API_KEY;
+    }
+    return headers;
+  }
+
+  /** Scan WLD transfers to an address, chunked to stay inside provider log limits */
+  private async scanTransfers(
+    rpc: WorldChainRpcClient,
+    payoutAddress: string,
+    fromBlock: bigint,
+    toBlock: bigint,
+    latestBlock: bigint
+  ): Promise<OnChainTransfer[]> {
+    const byTx = new Map<string, OnChainTransfer>();
+
+    for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+      const end = start + LOG_CHUNK_BLOCKS - 1n < toBlock ? start + LOG_CHUNK_BLOCKS - 1n : toBlock;
+      const logs = await rpc.getLogs({
+        address: WLD_TOKEN_ADDRESS,
+        topics: [ERC20_TRANSFER_TOPIC, null, addressToTopic(payoutAddress)],
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      for (const log of logs) {
+        const transfer = decodeTransferLog(log);
+        if (!transfer) continue;
+        const txHash = log.transactionHash.toLowerCase();
+        const existing = byTx.get(txHash);
+        if (existing) {
+          existing.amount = (toBigInt(existing.amount) + transfer.value).toString();
+          continue;
+        }
+        const blockNumber = BigInt(log.blockNumber);
+        byTx.set(txHash, {
+          txHash,
+          from: transfer.from,
+          amount: transfer.value.toString(),
+          blockNumber: Number(blockNumber),
+          confirmations: Number(latestBlock - blockNumber + 1n),
+        });
+      }
+    }
+
+    return Array.from(byTx.values());
+  }
+
+  /** Ask the backend to record a transfer that has no donation; it re-verifies the transaction */
+  private async recordTransfer(campaignId: string, transfer: OnChainTransfer): Promise<Donation> {
+    const headers = await this.getHeaders();
+    const res = await fetch(`${this.API_BASE}/campaigns/${campaignId}/donations/reconcile`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(transfer),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error((body as any).message || `Failed to record transfer (${res.status})`);
+    }
+    return (body as any).donation as Donation;
+  }
+
+  /** Decide what to do with a transfer that has no recorded donation */
+  private async resolveUnmatched(
+    campaign: Campaign,
+    transfer: OnChainTransfer,
+    autoRecord: boolean
+  ): Promise<ReconciliationEntry> {
+    if (transfer.confirmations < MIN_CONFIRMATIONS) {
+      return { outcome: 'flagged', flag: 'unconfirmed', transfer };
+    }
+    if (toBigInt(transfer.amount) < toBigInt(campaign.minAmount || DEFAULT_MIN_AMOUNT)) {
+      return { outcome: 'flagged', flag: 'below_minimum', transfer };
+    }
+    if (!autoRecord) {
+      return { outcome: 'flagged', flag: 'unrecorded', transfer };
+    }
+    try {
+      const donation = await this.recordTransfer(campaign.id, transfer);
+      return { outcome: 'recorded', transfer, donation };
+    } catch (error: any) {
+      console.error('[ReconciliationService] recordTransfer error:', error);
+      return { outcome: 'flagged', flag: 'record_failed', transfer, error: error.message };
+    }
+  }
+
+  /** Diff on-chain transfers to the campaign's payout address against its recorded donations */
+  public async reconcileCampaign(
+    campaign: Campaign,
+    options: ReconciliationOptions = {}
+  ): Promise<{ success: boolean; report?: ReconciliationReport; error?: string }> {
+    try {
+      if (campaign.fundingModel === 'all_or_nothing') {
+        throw new Error('All-or-nothing donations are held in escrow, so they cannot be reconciled against the payout address');
+      }
+      const payout = validatePayoutAddress(campaign.payoutAddress || '');
+      if (!payout.valid) {
+        throw new Error(`Campaign payout address is invalid: ${payout.error}`);
+      }
+
+      const rpc = options.rpcUrl ? worldChainRpc.withRpcUrl(options.rpcUrl) : worldChainRpc;
+      const latestBlock = await rpc.getBlockNumber();
+      const toBlock = options.toBlock !== undefined && options.toBlock < latestBlock ? options.toBlock : latestBlock;
+      const fromBlock = options.fromBlock ?? (toBlock >= DEFAULT_SCAN_BLOCKS ? toBlock - DEFAULT_SCAN_BLOCKS + 1n : 0n);
+      if (fromBlock > toBlock) {
+        throw new Error('Start block must not be after end block');
+      }
+
+      const [scanned, startBlock, endBlock] = await Promise.all([
+        this.scanTransfers(rpc, payout.checksummed, fromBlock, toBlock, latestBlock),
+        rpc.getBlock(fromBlock),
+        rpc.getBlock(toBlock),
+      ]);
+
+      // Escrow payouts and sponsor match payments reach the payout address but are not donations
+      const nonDonors = new Set(
+        [ESCROW_CONTRACT_ADDRESS, ...(campaign.matchingPledges || []).map(p => p.sponsorAddress)]
+          .filter((address): address is string => !!address)
+          .map(address => address.toLowerCase())
+      );
+      const transfers = scanned.filter(transfer => !nonDonors.has(transfer.from));
+
+      const donations = (campaign.donations || []).filter(d => d.status !== 'failed' && d.txHash);
+      const donationsByTx = new Map(donations.map(d => [d.txHash.toLowerCase(), d]));
+      const entries: ReconciliationEntry[] = [];
+
+      for (const transfer of transfers) {
+        const donation = donationsByTx.get(transfer.txHash);
+        if (!donation) {
+          entries.push(await this.resolveUnmatched(campaign, transfer, options.autoRecord ?? false));
+        } else if (toBigInt(donation.amount) !== toBigInt(transfer.amount)) {
+          entries.push({ outcome: 'flagged', flag: 'amount_mismatch', transfer, donation });
+        } else {
+          entries.push({ outcome: 'matched', transfer, donation });
+        }
+      }
+
+      // Newly recorded transfers may take the campaign to its goal
+      if (entries.some(e => e.outcome === 'recorded')) {
+        await campaignService.checkGoal(campaign.id);
+      }
+
+      // Confirmed donations recorded while the scanned blocks were produced should have a transfer
+      const scannedTx = new Set(transfers.map(t => t.txHash));
+      const windowStart = startBlock ? Number(BigInt(startBlock.timestamp)) * 1000 : 0;
+      const windowEnd = endBlock ? Number(BigInt(endBlock.timestamp)) * 1000 : Date.now();
+      donations
+        .filter(d => (d.status ?? 'confirmed') === 'confirmed' && !scannedTx.has(d.txHash.toLowerCase()))
+        .filter(d => {
+          const createdAt = new Date(d.createdAt).getTime();
+          return createdAt >= windowStart && createdAt <= windowEnd;
+        })
+        .forEach(donation => entries.push({ outcome: 'missing_onchain', donation }));
+
+      const totalFor = (outcome: ReconciliationOutcome): TokenAmount =>
+        sumAmounts(
+          entries
+            .filter(e => e.outcome === outcome)
+            .map(e => e.transfer?.amount ?? e.donation?.amount ?? '0')
+        ).toString();
+
+      return {
+        success: true,
+        report: {
+          campaignId: campaign.id,
+          payoutAddress: payout.checksummed,
+          rpcUrl: rpc.getRpcUrl(),
+          fromBlock: Number(fromBlock),
+          toBlock: Number(toBlock),
+          entries,
+          totals: {
+            matched: totalFor('matched'),
+            recorded: totalFor('recorded'),
+            flagged: totalFor('flagged'),
+            missing_onchain: totalFor('missing_onchain'),
+          },
+          generatedAt: new Date().toISOString(),
+        },
+      };
+    } catch (error: any) {
+      console.error('[ReconciliationService] reconcileCampaign error:', error);
+      return { success: false, error: error.message || 'Failed to reconcile campaign' };
+    }
+  }
+}
+
+export const reconciliationService = ReconciliationService.getInstance();
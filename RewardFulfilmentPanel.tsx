@@ -0,0 +1,97 @@
+// src/components/RewardFulfilmentPanel.tsx
+import React, { useState } from 'react';
+import { campaignService, Campaign, Donation } from '../services/CampaignService';
+import { getRewardClaims } from '../utils/rewardTiers';
+import { getDonorLabel, shortenAddress } from '../utils/donorDisplay';
+import { formatTokenAmount } from '../utils/tokenAmount';
+
+interface RewardFulfilmentPanelProps {
+  campaign: Campaign;
+  onChanged?: () => void;
+}
+
+// Owner's checklist of who chose each reward; pending donations hold a unit but are not yet paid
+export const RewardFulfilmentPanel: React.FC<RewardFulfilmentPanelProps> = ({ campaign, onChanged }) => {
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const claims = getRewardClaims(campaign);
+
+  const handleToggle = async (donation: Donation) => {
+    setSavingId(donation.id);
+    setError(null);
+    const result = await campaignService.setRewardFulfilled(campaign.id, donation.id, !donation.rewardFulfilledAt);
+    setSavingId(null);
+    if (result.success) {
+      onChanged?.();
+    } else {
+      setError(result.error || 'Failed to update reward');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow mt-6">
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold text-gray-800">Rewards: {campaign.title}</h2>
+        <p className="text-sm text-gray-500">
+          Tick each reward once you have sent it. Only confirmed donations can be marked as fulfilled.
+        </p>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">{error}</div>
+        )}
+
+        {claims.map(({ tier, donations, fulfilled }) => (
+          <div key={tier.id}>
+            <div className="flex justify-between items-baseline mb-2">
+              <h3 className="text-sm font-medium text-gray-900">
+                {formatTokenAmount(tier.minAmount)} WLD · {tier.title}
+              </h3>
+              <span className="text-xs text-gray-500">
+                {tier.quantity !== undefined ? `${donations.length} of ${tier.quantity} claimed` : `${donations.length} claimed`}
+                {donations.length > 0 && ` · ${fulfilled} fulfilled`}
+              </span>
+            </div>
+
+            {donations.length === 0 ? (
+              <p className="text-sm text-gray-500">No donors have chosen this reward yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border rounded-md">
+                {donations.map(donation => (
+                  <li key={donation.id} className="flex items-center justify-between p-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-gray-900 truncate">
+                        {getDonorLabel(donation)}{' '}
+                        <span className="text-xs text-gray-500" title={donation.donor}>
+                          {shortenAddress(donation.donor)}
+                        </span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatTokenAmount(donation.amount)} WLD · {new Date(donation.createdAt).toLocaleDateString()}
+                        {donation.status === 'pending' && ' · Awaiting confirmation'}
+                      </p>
+                    </div>
+                    <label className="flex items-center ml-3 text-xs text-gray-700 flex-shrink-0">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(donation.rewardFulfilledAt)}
+                        onChange={() => handleToggle(donation)}
+                        disabled={donation.status !== 'confirmed' || savingId === donation.id}
+                        className="mr-1"
+                      />
+                      {donation.rewardFulfilledAt
+                        ? `Sent ${new Date(donation.rewardFulfilledAt).toLocaleDateString()}`
+                        : 'Sent'}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+// src/components/RewardTiersEditor.tsx
+import React from 'react';
+import {
+  RewardTierInput,
+  MAX_REWARD_TIERS,
+  MAX_REWARD_TITLE_LENGTH,
+  MAX_REWARD_DESCRIPTION_LENGTH,
+} from '../utils/rewardTiers';
+import { isDecimalInput } from '../utils/tokenAmount';
+
+interface RewardTiersEditorProps {
+  value: RewardTierInput[];
+  onChange: (tiers: RewardTierInput[]) => void;
+}
+
+// Existing tiers keep their id so claims stay attached when the owner edits them
+export const RewardTiersEditor: React.FC<RewardTiersEditorProps> = ({ value, onChange }) => {
+  const updateRow = (index: number, field: keyof RewardTierInput, fieldValue: string) => {
+    if (field === 'minAmount' && !isDecimalInput(fieldValue)) return;
+    if (field === 'quantity' && !/^\d*$/.test(fieldValue)) return;
+    onChange(value.map((row, i) => (i === index ? { ...row, [field]: fieldValue } : row)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((row, index) => (
+        <div key={index} className="p-3 border rounded-md bg-gray-50 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={row.minAmount}
+              onChange={(e) => updateRow(index, 'minAmount', e.target.value)}
+              placeholder="Min WLD"
+              className="w-28 px-3 py-2 border rounded-md text-sm"
+            />
+            <input
+              type="text"
+              value={row.title}
+              onChange={(e) => updateRow(index, 'title', e.target.value)}
+              maxLength={MAX_REWARD_TITLE_LENGTH}
+              placeholder="Reward title"
+              className="flex-1 px-3 py-2 border rounded-md text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="px-2 text-sm text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+          <textarea
+            value={row.description}
+            onChange={(e) => updateRow(index, 'description', e.target.value)}
+            maxLength={MAX_REWARD_DESCRIPTION_LENGTH}
+            rows={2}
+            placeholder="What donors receive (optional)"
+            className="w-full px-3 py-2 border rounded-md text-sm"
+          />
+          <input
+            type="text"
+            inputMode="numeric"
+            value={row.quantity}
+            onChange={(e) => updateRow(index, 'quantity', e.target.value)}
+            placeholder="Quantity (empty for unlimited)"
+            className="w-full px-3 py-2 border rounded-md text-sm"
+          />
+        </div>
+      ))}
+      {value.length < MAX_REWARD_TIERS && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, { minAmount: '', title: '', description: '', quantity: '' }])}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add reward
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+// src/components/RoundMatchingPanel.tsx
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { FundingRound, getRoundPhase } from '../services/FundingRoundService';
+import type { RoundResults } from '../utils/quadratic';
+import { formatTokenAmount } from '../utils/tokenAmount';
+
+interface RoundMatchingPanelProps {
+  campaignId: string;
+  round: FundingRound;
+  results: RoundResults | null;
+  loading: boolean;
+}
+
+/** Projected (or final) quadratic matching for one campaign in its funding round */
+export const RoundMatchingPanel: React.FC<RoundMatchingPanelProps> = ({ campaignId, round, results, loading }) => {
+  const phase = getRoundPhase(round);
+  const entry = results?.campaigns.find(c => c.campaignId === campaignId);
+
+  return (
+    <div className="mb-6 p-4 border border-teal-200 bg-teal-50 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-semibold text-teal-900">{round.name}</h2>
+        <Link to={`/rounds/${round.id}`} className="text-xs text-teal-800 underline">
+          {phase === 'ended' ? 'Round results' : 'View round'}
+        </Link>
+      </div>
+      <p className="text-sm text-teal-800 mb-3">
+        {phase === 'upcoming' && `Quadratic funding round starting ${new Date(round.startsAt).toLocaleDateString()}. `}
+        {phase === 'active' && `Quadratic funding round until ${new Date(round.endsAt).toLocaleDateString()}. `}
+        {phase === 'ended' && `Quadratic funding round ended ${new Date(round.endsAt).toLocaleDateString()}. `}
+        {formatTokenAmount(round.matchingPool)} WLD is shared by how many unique humans give, not how much.
+      </p>
+
+      {loading && !results ? (
+        <p className="text-xs text-teal-700">Calculating matching...</p>
+      ) : entry && (
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div>
+            <p className="text-xs text-teal-700">{phase === 'ended' ? 'Matching' : 'Projected matching'}</p>
+            <p className="text-lg font-bold text-teal-900">{formatTokenAmount(entry.matching)} WLD</p>
+          </div>
+          <div>
+            <p className="text-xs text-teal-700">Unique humans</p>
+            <p className="text-lg font-bold text-teal-900">{entry.uniqueHumans}</p>
+          </div>
+          <div>
+            <p className="text-xs text-teal-700">Contributed</p>
+            <p className="text-lg font-bold text-teal-900">{formatTokenAmount(entry.contributed)} WLD</p>
+          </div>
+        </div>
+      )}
+
+      {phase === 'active' && (
+        <p className="mt-3 text-xs text-teal-700">
+          Only donations from World ID verified donors count towards matching.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,14 @@
+// src/components/TestModeBanner.tsx
+import React from 'react';
+import { network } from '../config/network';
+
+// Always visible on non-mainnet networks so test donations are never mistaken for real ones
+export const TestModeBanner: React.FC = () => {
+  if (!network.isTestnet) return null;
+
+  return (
+    <div className="sticky top-0 z-50 w-full bg-yellow-400 text-yellow-900 text-center text-xs font-bold py-1 px-2">
+      TEST MODE · {network.label} (chain {network.chainId}) · Tokens have no real value
+    </div>
+  );
+};
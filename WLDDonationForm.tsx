@@ -1,29 +1,103 @@
 // src/components/WLDDonationForm.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { MiniKit } from '@worldcoin/minikit-js';
+import { VerificationLevel } from '@worldcoin/idkit';
+import type { ISuccessResult } from '@worldcoin/idkit';
 import { useAuth } from './AuthContext';
-import { wldPaymentService, TransactionStatus } from '../services/WLDPaymentService';
+import WorldIDAuth from './WorldIDAuth';
+import { authService, WorldIdVerification } from '../services/AuthService';
+import { triggerMiniKitPay, triggerMiniKitSendTransaction, isMiniKitPaymentAvailable } from '../MiniKitProvider';
+import { wldPaymentService, TransactionStatus, DonationInstructions, GasEstimate } from '../services/WLDPaymentService';
+import { escrowService } from '../services/EscrowService';
+import type { FundingModel, DonorDisplayMode, RewardTier } from '../services/CampaignService';
+import { donationService, DonationAttempt } from '../services/DonationService';
+import { platformFee, calculateTip } from '../config/platformFee';
+import { network } from '../config/network';
+import { donationLimits, requiresReview, requiresOrbVerification } from '../config/donationLimits';
+import { donationLimitService, DailyUsage } from '../services/DonationLimitService';
+import { pledgeService, Pledge, PledgeInterval, PLEDGE_INTERVAL_LABELS } from '../services/PledgeService';
+import { useDonationPipeline } from '../hooks/useDonationPipeline';
+import {
+  DonorDisplayOptions,
+  MAX_DISPLAY_NAME_LENGTH,
+  MAX_DONATION_MESSAGE_LENGTH,
+  sanitizeDisplayText,
+} from '../utils/donorDisplay';
+import {
+  TokenAmount,
+  isDecimalInput,
+  tryParseTokenAmount,
+  formatUnits,
+  formatTokenAmount,
+  toBigInt,
+} from '../utils/tokenAmount';
 
 interface WLDDonationFormProps {
   campaignId: string;
+  // Wallet that opened the campaign's escrow; locates it for all-or-nothing donations
+  campaignOwnerId?: string;
+  fundingModel?: FundingModel;
+  // Due pledge being paid; fixes the amount and tags the donation with the pledge
+  pledge?: Pledge | null;
+  // The campaign is in an active quadratic funding round; verified donors count towards matching
+  inFundingRound?: boolean;
+  // Rewards donors can choose, sorted by minimum and with remaining counts filled in
+  rewardTiers?: RewardTier[];
   onDonationSuccess?: () => void;
 }
 
 export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({ 
   campaignId,
+  campaignOwnerId,
+  fundingModel = 'direct',
+  pledge = null,
+  inFundingRound = false,
+  rewardTiers = [],
   onDonationSuccess
 }) => {
   const { isAuthenticated, walletAddress } = useAuth();
   const [amount, setAmount] = useState<string>('');
   const [txHash, setTxHash] = useState<string>('');
-  const [loading, setLoading] = useState(false);
   const [verifying, setVerifying] = useState(false);
-  const [success, setSuccess] = useState(false);
+  // Validation errors; pipeline failures come from the donation attempt
   const [error, setError] = useState<string | null>(null);
-  const [instructions, setInstructions] = useState<{
-    campaignAddress: string;
-    instructions: string[];
-    minAmount: number;
-  } | null>(null);
+  const { attempt, state, busy: loading, submitManual, submitMiniKit, submitEscrow, reset } = useDonationPipeline(campaignId);
+  const isEscrow = fundingModel === 'all_or_nothing';
+  // One-tap payments are only possible inside World App on mainnet; otherwise donors paste a tx hash
+  const [isMiniKitAvailable] = useState<boolean>(isMiniKitPaymentAvailable);
+  const [instructions, setInstructions] = useState<DonationInstructions | null>(null);
+  // Public attribution; the World App username is only offered once it has been looked up
+  const [username, setUsername] = useState<string | null>(null);
+  const [displayMode, setDisplayMode] = useState<DonorDisplayMode>('anonymous');
+  const [displayName, setDisplayName] = useState('');
+  const [message, setMessage] = useState('');
+  // Turn a one-off donation into a recurring pledge once it has been recorded
+  const [recurring, setRecurring] = useState(false);
+  const [recurringInterval, setRecurringInterval] = useState<PledgeInterval>('monthly');
+  const [pledgeNotice, setPledgeNotice] = useState<string | null>(null);
+  // Interval of a pledge waiting for its first donation to be confirmed by the backend
+  const [pledgeOnConfirm, setPledgeOnConfirm] = useState<PledgeInterval | null>(null);
+  // Pledge payments never claim a reward; the donor chose one with their first donation
+  const [rewardTierId, setRewardTierId] = useState<string | null>(null);
+  const rewardTier = pledge ? undefined : rewardTiers.find(tier => tier.id === rewardTierId);
+  // World ID verification lets the donation count as one unique human in funding rounds
+  const [worldId, setWorldId] = useState<WorldIdVerification | null>(() => authService.getWorldIdVerification());
+  const [worldIdError, setWorldIdError] = useState<string | null>(null);
+  // Platform tips are a second in-app payment, so they are only offered for one-tap direct donations
+  const tipsAvailable = platformFee.enabled && isMiniKitAvailable && !isEscrow;
+  const [tipPercent, setTipPercent] = useState<number>(platformFee.defaultTipPercent);
+  const [tipNotice, setTipNotice] = useState<string | null>(null);
+  // Large donations are confirmed on a summary screen before anything is sent
+  const [reviewing, setReviewing] = useState(false);
+  // Manual donors see where to send WLD only after the amount has passed the limits and review
+  const [manualReady, setManualReady] = useState(false);
+  // Today's total for the verified human, when a per-human daily cap is configured
+  const [dailyUsage, setDailyUsage] = useState<DailyUsage | null>(null);
+
+  useEffect(() => {
+    if (pledge) setAmount(formatUnits(pledge.amount));
+  }, [pledge]);
 
   useEffect(() => {
     const fetchInstructions = async () => {
@@ -32,18 +106,117 @@ export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({
         setInstructions(donationInstructions);
       } catch (error) {
         console.error('Failed to fetch donation instructions:', error);
-        setError('Failed to load donation instructions. Please try again.');
+        setError(error instanceof Error ? error.message : 'Failed to load donation instructions. Please try again.');
       }
     };
 
     fetchInstructions();
   }, [campaignId]);
 
+  useEffect(() => {
+    if (!walletAddress) {
+      setUsername(null);
+      return;
+    }
+    if (MiniKit.user?.username) {
+      setUsername(MiniKit.user.username);
+      return;
+    }
+    let cancelled = false;
+    MiniKit.getUserByAddress(walletAddress)
+      .then(user => {
+        if (!cancelled) setUsername(user?.username || null);
+      })
+      .catch(error => {
+        console.error('Failed to look up World App username:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress]);
+
+  useEffect(() => {
+    const nullifierHash = worldId?.nullifierHash;
+    if (donationLimits.dailyCapPerHuman === null || !nullifierHash) {
+      setDailyUsage(null);
+      return;
+    }
+    let cancelled = false;
+    donationLimitService.fetchDailyUsage(nullifierHash).then(result => {
+      if (!cancelled) setDailyUsage(result.success && result.usage ? result.usage : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [worldId, state]);
+
+  // Default to the username once it is known, unless the donor already chose
+  useEffect(() => {
+    if (username) setDisplayMode(mode => (mode === 'anonymous' ? 'username' : mode));
+  }, [username]);
+
+  // Connected wallet's WLD balance; refreshed after each donation settles
+  const [balance, setBalance] = useState<TokenAmount | null>(null);
+  const [gasEstimate, setGasEstimate] = useState<GasEstimate | null>(null);
+
+  useEffect(() => {
+    if (!walletAddress) {
+      setBalance(null);
+      return;
+    }
+    let cancelled = false;
+    wldPaymentService.getWalletBalance(walletAddress).then(result => {
+      if (!cancelled) setBalance(result.success && result.balance ? result.balance : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress, state]);
+
+  const parsedAmount = tryParseTokenAmount(amount);
+  const tipAmount = tipsAvailable && parsedAmount !== null ? calculateTip(parsedAmount, tipPercent) : 0n;
+  const exceedsBalance = balance !== null && parsedAmount !== null && parsedAmount + tipAmount > toBigInt(balance);
+  const needsOrb = parsedAmount !== null && requiresOrbVerification(parsedAmount);
+  const orbVerified = worldId?.verificationLevel === VerificationLevel.Orb;
+  const remainingToday = donationLimits.dailyCapPerHuman !== null && dailyUsage
+    ? (donationLimits.dailyCapPerHuman > toBigInt(dailyUsage.used) ? donationLimits.dailyCapPerHuman - toBigInt(dailyUsage.used) : 0n)
+    : null;
+
+  // Donors sending manually pay their own gas; World App covers it for in-app payments
+  const gasAmount = !isMiniKitAvailable && parsedAmount !== null && parsedAmount > 0n && !exceedsBalance
+    ? parsedAmount.toString()
+    : null;
+  const campaignAddress = instructions?.campaignAddress;
+
+  useEffect(() => {
+    setGasEstimate(null);
+    if (!walletAddress || !campaignAddress || !gasAmount) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await wldPaymentService.estimateTransferGas(walletAddress, campaignAddress, gasAmount);
+      if (!cancelled && result.success && result.estimate) setGasEstimate(result.estimate);
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [walletAddress, campaignAddress, gasAmount]);
+
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     // Allow only numbers and decimal point
-    if (/^\d*\.?\d*$/.test(value)) {
+    if (isDecimalInput(value)) {
       setAmount(value);
+      setReviewing(false);
+    }
+  };
+
+  // Choosing a reward raises the amount to the tier's minimum when it is lower
+  const handleRewardChange = (tier: RewardTier | null) => {
+    setRewardTierId(tier?.id ?? null);
+    setReviewing(false);
+    if (tier && (parsedAmount === null || parsedAmount < toBigInt(tier.minAmount))) {
+      setAmount(formatUnits(tier.minAmount));
     }
   };
 
@@ -53,26 +226,38 @@ export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({
       return;
     }
 
+    if (!instructions) {
+      setError('Donation details are still loading. Please try again.');
+      return;
+    }
+
     setVerifying(true);
     setError(null);
 
     try {
-      const result = await wldPaymentService.verifyTransaction(txHash);
+      const result = await wldPaymentService.verifyTransaction(txHash, instructions.campaignAddress);
       
       if (!result.success) {
         throw new Error(result.error || 'Transaction verification failed');
       }
       
-      if (result.transaction?.status !== TransactionStatus.CONFIRMED) {
-        throw new Error('Transaction is not confirmed yet. Please wait and try again.');
+      if (result.transaction?.status === TransactionStatus.FAILED) {
+        throw new Error('Transaction failed on-chain. No WLD was transferred.');
       }
       
-      // Set verified amount from transaction
-      if (result.transaction?.amount) {
-        setAmount(result.transaction.amount.toString());
+      if (result.transaction?.status !== TransactionStatus.CONFIRMED) {
+        throw new Error(
+          `Transaction is not confirmed yet (${result.transaction?.confirmations ?? 0} confirmations). Please wait and try again.`
+        );
       }
       
-      // Proceed with donation (no error thrown)
+      // The reviewed amount stands; a transfer of any other amount will not be recorded
+      const entered = tryParseTokenAmount(amount);
+      if (result.transaction && entered !== null && toBigInt(result.transaction.amount) !== entered) {
+        throw new Error(
+          `This transaction sent ${formatTokenAmount(result.transaction.amount)} WLD, but your donation is for ${formatTokenAmount(entered)} WLD.`
+        );
+      }
     } catch (err: any) {
       console.error('Transaction verification error:', err);
       setError(err.message || 'Failed to verify transaction');
@@ -81,67 +266,288 @@ export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  // Parse the entered amount into base units, or set an error and return null.
+  // In-app payments are also checked against the wallet balance before they start.
+  // The backend enforces the same size limits; checking here saves the donor a failed payment.
+  const validateAmount = (minAmount: TokenAmount, checkBalance = false): TokenAmount | null => {
+    const value = tryParseTokenAmount(amount);
+    if (value === null || value <= 0n) {
+      setError('Please enter a valid amount');
+      return null;
+    }
+    if (value < toBigInt(minAmount)) {
+      setError(`Minimum donation amount is ${formatTokenAmount(minAmount)} WLD`);
+      return null;
+    }
+    if (rewardTier && rewardTier.remaining === 0) {
+      setError(`"${rewardTier.title}" is sold out. Please choose another reward.`);
+      return null;
+    }
+    if (rewardTier && value < toBigInt(rewardTier.minAmount)) {
+      setError(`"${rewardTier.title}" needs a donation of at least ${formatTokenAmount(rewardTier.minAmount)} WLD`);
+      return null;
+    }
+    if (checkBalance && balance !== null && value + tipAmount > toBigInt(balance)) {
+      setError(tipAmount > 0n
+        ? `Insufficient WLD balance for the donation and tip. You have ${formatTokenAmount(balance)} WLD available.`
+        : `Insufficient WLD balance. You have ${formatTokenAmount(balance)} WLD available.`);
+      return null;
+    }
+    if (requiresOrbVerification(value) && !orbVerified) {
+      setError(`Donations above ${formatTokenAmount(donationLimits.orbThreshold!)} WLD require Orb verification with World ID.`);
+      return null;
+    }
+    if (donationLimits.dailyCapPerHuman !== null) {
+      if (!worldId) {
+        setError('Please verify with World ID before donating.');
+        return null;
+      }
+      if (remainingToday !== null && value > remainingToday) {
+        setError(remainingToday > 0n
+          ? `Each person can give up to ${formatTokenAmount(donationLimits.dailyCapPerHuman)} WLD per day. You can give ${formatTokenAmount(remainingToday)} WLD more today.`
+          : `You have reached today's limit of ${formatTokenAmount(donationLimits.dailyCapPerHuman)} WLD. Please try again tomorrow.`);
+        return null;
+      }
+    }
+    return value.toString();
+  };
+
+  const handleWorldIdSuccess = async (proof: ISuccessResult) => {
+    setWorldIdError(null);
+    const result = await authService.verifyWorldIdProof(proof);
+    if (result.success && result.verification) {
+      setWorldId(result.verification);
+    } else {
+      setWorldIdError(result.error || 'World ID verification failed');
+    }
+  };
+
+  // Stable so WorldIDAuth's setup effect does not rerun on every render
+  const handleWorldIdError = useCallback((err: unknown) => {
+    setWorldIdError(err instanceof Error ? err.message : 'World ID verification failed');
+  }, []);
+
+  // Display options for the donation, or an error and null when a custom name is missing
+  const buildDisplay = (): DonorDisplayOptions | null => {
+    const cleanMessage = sanitizeDisplayText(message, MAX_DONATION_MESSAGE_LENGTH, true) || undefined;
+    if (displayMode === 'custom') {
+      const name = sanitizeDisplayText(displayName, MAX_DISPLAY_NAME_LENGTH);
+      if (!name) {
+        setError('Please enter the name to show, or choose another display option');
+        return null;
+      }
+      return { displayMode, displayName: name, message: cleanMessage };
+    }
+    if (displayMode === 'username' && username) {
+      return { displayMode, displayName: username, message: cleanMessage };
+    }
+    return { displayMode: 'anonymous', message: cleanMessage };
+  };
+
+  // Clear the form after a recorded donation; a requested pledge waits for the donation to confirm
+  const handleRecorded = async (result: DonationAttempt) => {
+    setAmount(pledge ? formatUnits(pledge.amount) : '');
+    setTxHash('');
+    setMessage('');
+    setRewardTierId(null);
+    setPledgeNotice(null);
+
+    if (recurring && !pledge && !isEscrow) {
+      setPledgeOnConfirm(recurringInterval);
+      if (result.state !== 'confirmed') {
+        setPledgeNotice('Your recurring pledge will be set up once this donation is confirmed.');
+      }
+      setRecurring(false);
+    }
+
+    onDonationSuccess?.();
+  };
+
+  // Start the pledge only once the backend has confirmed its first donation
+  useEffect(() => {
+    if (!pledgeOnConfirm || !attempt) return;
+    if (attempt.state === 'failed') {
+      setPledgeOnConfirm(null);
+      setPledgeNotice(null);
+      return;
+    }
+    if (attempt.state !== 'confirmed') return;
+
+    // Cleared first so the pledge is created once; the request is not cancelled by the re-run
+    setPledgeOnConfirm(null);
+    pledgeService.createPledge({
+      campaignId,
+      amount: attempt.amount,
+      interval: pledgeOnConfirm,
+      initialDonationId: attempt.intent?.donationId,
+    }).then(created => {
+      setPledgeNotice(created.success && created.pledge
+        ? `Recurring pledge set up. Your next payment is due ${new Date(created.pledge.nextDueAt).toLocaleDateString()}.`
+        : `Your donation was recorded, but the recurring pledge could not be set up: ${created.error}`);
+    });
+  }, [attempt, pledgeOnConfirm, campaignId]);
+
+  const handleMiniKitPay = async () => {
+    if (!isAuthenticated) {
+      setError('Please sign in to donate');
+      return;
+    }
+
+    if (!instructions) {
+      setError('Donation details are still loading. Please try again.');
+      return;
+    }
+
+    if (isEscrow && !campaignOwnerId) {
+      setError('The escrow for this campaign cannot be found. Please reload the page.');
+      return;
+    }
+
+    const donationAmount = validateAmount(instructions.minAmount, true);
+    if (!donationAmount) return;
+    const display = buildDisplay();
+    if (!display) return;
+
+    setError(null);
+    if (requiresReview(toBigInt(donationAmount)) && !reviewing) {
+      setReviewing(true);
+      return;
+    }
+    setTipNotice(null);
+    const tip = tipsAvailable ? calculateTip(donationAmount, tipPercent) : 0n;
+    const tipDetails = tip > 0n ? { tipPercent, tipAmount: tip.toString() } : {};
+
+    // All-or-nothing donations go into escrow instead of straight to the payout address
+    const result = isEscrow && campaignOwnerId
+      ? await submitEscrow(donationAmount, (paymentIntent) =>
+          triggerMiniKitSendTransaction(
+            escrowService.buildDonateTransaction({ id: campaignId, ownerId: campaignOwnerId }, donationAmount, paymentIntent.reference)
+          ),
+          { display, pledgeId: pledge?.id, nullifierHash: worldId?.nullifierHash, rewardTierId: rewardTier?.id }
+        )
+      : await submitMiniKit(donationAmount, (paymentIntent) =>
+          triggerMiniKitPay({
+            reference: paymentIntent.reference,
+            to: instructions.campaignAddress,
+            amount: donationAmount,
+            description: pledge ? 'WorldFund recurring donation' : 'WorldFund campaign donation',
+          }),
+          { display, pledgeId: pledge?.id, nullifierHash: worldId?.nullifierHash, rewardTierId: rewardTier?.id, ...tipDetails }
+        );
+
+    setReviewing(false);
+
+    if (result.state !== 'failed' && tip > 0n) {
+      // The donation is already recorded; the tip is a separate payment to the platform
+      const tipResult = await donationService.submitTip(result, (reference) =>
+        triggerMiniKitPay({
+          reference,
+          to: platformFee.recipient,
+          amount: tip.toString(),
+          description: 'WorldFund platform tip',
+        })
+      );
+      setTipNotice(tipResult.success
+        ? `Thanks for your ${formatTokenAmount(tip)} WLD tip to WorldFund!`
+        : `Your donation was recorded, but the tip was not sent: ${tipResult.error}`);
+    }
+
+    if (result.state !== 'failed') {
+      await handleRecorded(result);
+    }
+  };
+
+  // Check the limits and, for large amounts, the review step before showing the transfer details.
+  // Also called without an event when confirming the review step.
+  const handleContinueManual = (e?: React.FormEvent) => {
+    e?.preventDefault();
+
     if (!isAuthenticated) {
       setError('Please sign in to donate');
       return;
     }
+
+    if (!instructions) {
+      setError('Donation details are still loading. Please try again.');
+      return;
+    }
+
+    const donationAmount = validateAmount(instructions.minAmount);
+    if (!donationAmount) return;
+    if (!buildDisplay()) return;
+
+    setError(null);
+    if (requiresReview(toBigInt(donationAmount)) && !reviewing) {
+      setReviewing(true);
+      return;
+    }
+    setReviewing(false);
+    setManualReady(true);
+  };
+
+  // Record a manual transfer once the donor has sent it
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
     
-    if (!amount || parseFloat(amount) <= 0) {
-      setError('Please enter a valid amount');
+    if (!isAuthenticated) {
+      setError('Please sign in to donate');
       return;
     }
     
-    if (!txHash) {
-      setError('Please enter a transaction hash');
+    if (!instructions) {
+      setError('Donation details are still loading. Please try again.');
       return;
     }
     
-    if (instructions?.minAmount && parseFloat(amount) < instructions.minAmount) {
-      setError(`Minimum donation amount is ${instructions.minAmount} WLD`);
+    const donationAmount = validateAmount(instructions.minAmount);
+    if (!donationAmount) return;
+    
+    if (!txHash) {
+      setError('Please enter a transaction hash');
       return;
     }
+
+    const display = buildDisplay();
+    if (!display) return;
     
-    setLoading(true);
     setError(null);
+    const result = await submitManual(
+      donationAmount,
+      txHash,
+      instructions.campaignAddress,
+      { display, pledgeId: pledge?.id, nullifierHash: worldId?.nullifierHash, rewardTierId: rewardTier?.id }
+    );
     
-    try {
-      const result = await wldPaymentService.donateWLD(
-        campaignId,
-        parseFloat(amount),
-        txHash
-      );
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Donation failed');
-      }
-      
-      setSuccess(true);
-      setAmount('');
-      setTxHash('');
-      
-      // Call the success callback if provided
-      if (onDonationSuccess) {
-        onDonationSuccess();
-      }
-    } catch (err: any) {
-      console.error('Donation error:', err);
-      setError(err.message || 'Failed to process donation');
-    } finally {
-      setLoading(false);
+    if (result.state !== 'failed') {
+      await handleRecorded(result);
     }
   };
 
   const resetForm = () => {
-    setAmount('');
+    setAmount(pledge ? formatUnits(pledge.amount) : '');
     setTxHash('');
-    setSuccess(false);
+    setMessage('');
+    setRewardTierId(null);
+    setPledgeNotice(null);
+    setPledgeOnConfirm(null);
+    setTipNotice(null);
+    setReviewing(false);
+    setManualReady(false);
     setError(null);
+    reset();
   };
 
+  const displayError = error || (state === 'failed' ? attempt?.error || 'Failed to process donation' : null);
+  const errorCode = error ? undefined : attempt?.errorCode;
+
   if (!instructions) {
+    if (error) {
+      return (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+          {error}
+        </div>
+      );
+    }
     return (
       <div className="p-4 text-center">
         <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500 mx-auto"></div>
@@ -150,7 +556,7 @@ export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({
     );
   }
 
-  if (success) {
+  if (state === 'pending_confirmation' || state === 'confirmed') {
     return (
       <div className="p-6 bg-green-50 border border-green-200 rounded-lg">
         <div className="text-center mb-4">
@@ -158,7 +564,36 @@ export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
           </svg>
           <h3 className="mt-2 text-lg font-medium text-green-800">Thank you for your donation!</h3>
-          <p className="mt-1 text-sm text-green-600">Your contribution has been successfully recorded.</p>
+          <p className="mt-1 text-sm text-green-600">
+            {state === 'confirmed'
+              ? 'Your contribution has been successfully recorded.'
+              : 'Your contribution has been recorded and is awaiting on-chain confirmation.'}
+          </p>
+          {attempt?.txHash && wldPaymentService.getTransactionUrl(attempt.txHash) && (
+            <a
+              href={wldPaymentService.getTransactionUrl(attempt.txHash)!}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-2 inline-block text-xs text-green-700 underline hover:text-green-900"
+            >
+              View transaction
+            </a>
+          )}
+          {state === 'confirmed' && attempt?.intent?.donationId && (
+            <Link
+              to={`/receipts/${campaignId}/${attempt.intent.donationId}`}
+              className="mt-2 ml-3 inline-block text-xs text-green-700 underline hover:text-green-900"
+            >
+              View receipt
+            </Link>
+          )}
+          {tipNotice && <p className="mt-3 text-sm text-green-700">{tipNotice}</p>}
+          {pledgeNotice && (
+            <p className="mt-3 text-sm text-green-700">
+              {pledgeNotice}{' '}
+              <Link to="/my-pledges" className="underline hover:text-green-900">Manage pledges</Link>
+            </p>
+          )}
         </div>
         <button
           onClick={resetForm}
@@ -170,6 +605,327 @@ export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({
     );
   }
 
+  const balanceInfo = balance !== null && (
+    <div className="mt-1 text-xs">
+      <div className="flex justify-between text-gray-500">
+        <span>Available: {formatTokenAmount(balance)} WLD</span>
+        {!pledge && (
+          <button
+            type="button"
+            onClick={() => setAmount(formatUnits(balance))}
+            disabled={toBigInt(balance) === 0n}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Max
+          </button>
+        )}
+      </div>
+      {exceedsBalance && (
+        <p className="mt-1 text-red-600">Amount is more than your WLD balance.</p>
+      )}
+      {gasEstimate && (
+        <p className={`mt-1 ${gasEstimate.sufficient ? 'text-gray-500' : 'text-red-600'}`}>
+          Estimated network fee: ~{formatTokenAmount(gasEstimate.fee, { maxFractionDigits: 8 })} ETH
+          {!gasEstimate.sufficient && ' (not enough ETH for gas)'}
+        </p>
+      )}
+    </div>
+  );
+
+  const rewardFields = !pledge && rewardTiers.length > 0 && (
+    <fieldset>
+      <legend className="block text-sm font-medium text-gray-700">Choose a reward</legend>
+      <div className="mt-1 space-y-2">
+        <label className="flex items-start p-2 border rounded-md text-sm text-gray-700 cursor-pointer">
+          <input
+            type="radio"
+            name="rewardTier"
+            checked={!rewardTier}
+            onChange={() => handleRewardChange(null)}
+            className="mt-0.5 mr-2"
+          />
+          No reward, I just want to help
+        </label>
+        {rewardTiers.map(tier => {
+          const soldOut = tier.remaining === 0;
+          return (
+            <label
+              key={tier.id}
+              className={`flex items-start p-2 border rounded-md text-sm ${
+                soldOut ? 'bg-gray-50 text-gray-400 cursor-not-allowed' : 'text-gray-700 cursor-pointer'
+              } ${rewardTier?.id === tier.id ? 'border-blue-500 bg-blue-50' : ''}`}
+            >
+              <input
+                type="radio"
+                name="rewardTier"
+                checked={rewardTier?.id === tier.id}
+                onChange={() => handleRewardChange(tier)}
+                disabled={soldOut}
+                className="mt-0.5 mr-2"
+              />
+              <span className="min-w-0">
+                <span className="block font-medium">
+                  {formatTokenAmount(tier.minAmount)} WLD or more · {tier.title}
+                </span>
+                {tier.description && (
+                  <span className="block text-xs text-gray-500 whitespace-pre-line break-words">{tier.description}</span>
+                )}
+                {tier.remaining !== undefined && (
+                  <span className={`block text-xs ${soldOut ? 'text-red-500' : 'text-gray-500'}`}>
+                    {soldOut ? 'Sold out' : `${tier.remaining} of ${tier.quantity} left`}
+                  </span>
+                )}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+
+  const tipFields = tipsAvailable && (
+    <div>
+      <label htmlFor="tipPercent" className="block text-sm font-medium text-gray-700">
+        Tip WorldFund (optional)
+      </label>
+      <select
+        id="tipPercent"
+        value={tipPercent}
+        onChange={(e) => setTipPercent(Number(e.target.value))}
+        className="mt-1 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+      >
+        {platformFee.tipOptions.map(option => (
+          <option key={option} value={option}>{option === 0 ? 'No tip' : `${option}%`}</option>
+        ))}
+      </select>
+      <p className="mt-1 text-xs text-gray-500">
+        {tipAmount > 0n && parsedAmount !== null
+          ? `${formatTokenAmount(tipAmount)} WLD tip, paid separately. Total: ${formatTokenAmount(parsedAmount + tipAmount)} WLD. The campaign receives the full donation.`
+          : 'Tips help run the platform and never come out of your donation.'}
+      </p>
+    </div>
+  );
+
+  const recurringFields = pledge ? (
+    <div className="rounded-md bg-blue-50 border border-blue-200 p-3 text-sm text-blue-800">
+      {PLEDGE_INTERVAL_LABELS[pledge.interval]} pledge payment of {formatTokenAmount(pledge.amount)} WLD,
+      due {new Date(pledge.nextDueAt).toLocaleDateString()}.
+    </div>
+  ) : !isEscrow && (
+    <div>
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={recurring}
+          onChange={(e) => setRecurring(e.target.checked)}
+          className="mr-2"
+        />
+        Make this a recurring donation
+      </label>
+      {recurring && (
+        <>
+          <select
+            value={recurringInterval}
+            onChange={(e) => setRecurringInterval(e.target.value as PledgeInterval)}
+            className="mt-2 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+          >
+            {(Object.keys(PLEDGE_INTERVAL_LABELS) as PledgeInterval[]).map(interval => (
+              <option key={interval} value={interval}>{PLEDGE_INTERVAL_LABELS[interval]}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Nothing is charged automatically. We'll remind you when each payment is due, and you can cancel any time.
+          </p>
+        </>
+      )}
+    </div>
+  );
+
+  // A single World ID prompt covers the strongest requirement that is not yet met
+  const worldIdPrompt = needsOrb && !orbVerified
+    ? `Donations above ${formatTokenAmount(donationLimits.orbThreshold!)} WLD require Orb verification with World ID.`
+    : donationLimits.dailyCapPerHuman !== null && !worldId
+      ? `Verify with World ID to donate. Each person can give up to ${formatTokenAmount(donationLimits.dailyCapPerHuman)} WLD per day.`
+      : inFundingRound && !worldId
+        ? 'This campaign is in a matching round. Verify you are a unique human so your donation is matched.'
+        : null;
+
+  const personhoodFields = worldIdPrompt ? (
+    <div className="rounded-md bg-teal-50 border border-teal-200 p-3">
+      <p className="text-sm text-teal-800 mb-2">{worldIdPrompt}</p>
+      <WorldIDAuth
+        app_id={import.meta.env.VITE_WORLD_APP_ID as `app_${string}`}
+        action={import.meta.env.VITE_WORLD_ACTION_ID}
+        verification_level={needsOrb && !orbVerified ? VerificationLevel.Orb : VerificationLevel.Device}
+        buttonText={needsOrb && !orbVerified ? 'Verify with Orb' : 'Verify with World ID'}
+        onSuccess={handleWorldIdSuccess}
+        onError={handleWorldIdError}
+        className="w-full py-2 px-4 rounded-md text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 disabled:bg-teal-300"
+      />
+      {worldIdError && <p className="mt-1 text-xs text-red-600">{worldIdError}</p>}
+    </div>
+  ) : (inFundingRound || remainingToday !== null) && (
+    <div className="space-y-1">
+      {inFundingRound && (
+        <p className="text-xs text-teal-700">
+          Verified with World ID. Your donation counts towards this round's quadratic matching.
+        </p>
+      )}
+      {remainingToday !== null && (
+        <p className="text-xs text-gray-500">
+          You can give {formatTokenAmount(remainingToday)} WLD more today.
+        </p>
+      )}
+    </div>
+  );
+
+  const displayFields = (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="displayMode" className="block text-sm font-medium text-gray-700">
+          Show my donation as
+        </label>
+        <select
+          id="displayMode"
+          value={displayMode}
+          onChange={(e) => setDisplayMode(e.target.value as DonorDisplayMode)}
+          className="mt-1 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+        >
+          {username && <option value="username">@{username}</option>}
+          <option value="custom">A name I choose</option>
+          <option value="anonymous">Anonymous</option>
+        </select>
+        {displayMode === 'custom' && (
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            maxLength={MAX_DISPLAY_NAME_LENGTH}
+            placeholder="Name to show"
+            className="mt-2 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+          />
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          {displayMode === 'anonymous'
+            ? 'Your name and wallet address are hidden on the campaign page.'
+            : 'Shown in the campaign\'s recent donations.'}
+        </p>
+      </div>
+      <div>
+        <label htmlFor="message" className="block text-sm font-medium text-gray-700">
+          Message (optional)
+        </label>
+        <textarea
+          id="message"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          maxLength={MAX_DONATION_MESSAGE_LENGTH}
+          rows={2}
+          placeholder="Leave a note of support"
+          className="mt-1 shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+        />
+        <p className="mt-1 text-xs text-gray-500 text-right">
+          {message.length}/{MAX_DONATION_MESSAGE_LENGTH}
+        </p>
+      </div>
+    </div>
+  );
+
+  const errorAlert = displayError && (errorCode === 'duplicate_transaction' || errorCode === 'intent_expired') ? (
+    <div className="rounded-md bg-yellow-50 border border-yellow-200 p-3">
+      <p className="text-sm font-medium text-yellow-800">
+        {errorCode === 'duplicate_transaction' ? 'Already recorded' : 'Donation expired'}
+      </p>
+      <p className="mt-1 text-sm text-yellow-700">{displayError}</p>
+      <button
+        type="button"
+        onClick={resetForm}
+        className="mt-2 text-xs text-yellow-800 underline hover:text-yellow-900"
+      >
+        Start a new donation
+      </button>
+    </div>
+  ) : displayError && (
+    <div className="rounded-md bg-red-50 p-3">
+      <div className="flex">
+        <div className="flex-shrink-0">
+          <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+        </div>
+        <div className="ml-3">
+          <p className="text-sm text-red-700">{displayError}</p>
+        </div>
+      </div>
+    </div>
+  );
+
+  const reviewPanel = reviewing && parsedAmount !== null && (
+    <div className="p-4 space-y-4">
+      <div>
+        <h4 className="text-base font-medium text-gray-900">Review your donation</h4>
+        <p className="mt-1 text-sm text-gray-600">
+          This is a large donation. Please check the details; blockchain payments cannot be reversed.
+        </p>
+      </div>
+      {errorAlert}
+      <dl className="rounded-md border border-gray-200 divide-y divide-gray-200 text-sm">
+        <div className="flex justify-between p-2">
+          <dt className="text-gray-500">Donation</dt>
+          <dd className="font-medium text-gray-900">{formatTokenAmount(parsedAmount)} WLD</dd>
+        </div>
+        {tipAmount > 0n && (
+          <div className="flex justify-between p-2">
+            <dt className="text-gray-500">Platform tip</dt>
+            <dd className="text-gray-900">{formatTokenAmount(tipAmount)} WLD</dd>
+          </div>
+        )}
+        {tipAmount > 0n && (
+          <div className="flex justify-between p-2">
+            <dt className="text-gray-500">Total</dt>
+            <dd className="font-medium text-gray-900">{formatTokenAmount(parsedAmount + tipAmount)} WLD</dd>
+          </div>
+        )}
+        <div className="p-2">
+          <dt className="text-gray-500">{isEscrow ? 'Held in escrow for' : 'Sent to'}</dt>
+          <dd className="mt-1 text-gray-900 break-all">{instructions.campaignAddress}</dd>
+        </div>
+        {rewardTier && (
+          <div className="flex justify-between p-2">
+            <dt className="text-gray-500">Reward</dt>
+            <dd className="text-gray-900">{rewardTier.title}</dd>
+          </div>
+        )}
+        {recurring && !pledge && (
+          <div className="flex justify-between p-2">
+            <dt className="text-gray-500">Repeats</dt>
+            <dd className="text-gray-900">{PLEDGE_INTERVAL_LABELS[recurringInterval]}</dd>
+          </div>
+        )}
+      </dl>
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={() => setReviewing(false)}
+          disabled={loading}
+          className="flex-1 py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Edit
+        </button>
+        <button
+          type="button"
+          onClick={() => (isMiniKitAvailable ? handleMiniKitPay() : handleContinueManual())}
+          disabled={loading}
+          className={`flex-1 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+            loading ? 'bg-blue-400' : 'bg-blue-600 hover:bg-blue-700'
+          } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
+        >
+          {loading ? 'Processing...' : isMiniKitAvailable ? 'Confirm donation' : 'Continue to payment'}
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden">
       <div className="p-4 border-b bg-blue-50">
@@ -177,33 +933,8 @@ export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({
         <p className="mt-1 text-sm text-blue-600">Support this campaign with WLD tokens</p>
       </div>
       
-      <div className="p-4">
-        <div className="mb-4">
-          <p className="text-sm font-medium text-gray-700 mb-2">Campaign Address:</p>
-          <div className="p-2 bg-gray-50 rounded-md border border-gray-200 text-sm break-all">
-            {instructions.campaignAddress}
-          </div>
-          <button
-            onClick={() => {
-              navigator.clipboard.writeText(instructions.campaignAddress);
-              alert('Address copied to clipboard!');
-            }}
-            className="mt-1 text-xs text-blue-600 hover:text-blue-800"
-          >
-            Copy Address
-          </button>
-        </div>
-        
-        <div className="mb-4">
-          <p className="text-sm font-medium text-gray-700 mb-2">Instructions:</p>
-          <ol className="list-decimal list-inside text-sm space-y-1 text-gray-600">
-            {instructions.instructions.map((instruction, index) => (
-              <li key={index}>{instruction}</li>
-            ))}
-          </ol>
-        </div>
-        
-        <form onSubmit={handleSubmit} className="space-y-4">
+      {reviewPanel || (isMiniKitAvailable ? (
+        <div className="p-4 space-y-4">
           <div>
             <label htmlFor="amount" className="block text-sm font-medium text-gray-700">
               Amount (WLD)
@@ -214,76 +945,179 @@ export const WLDDonationForm: React.FC<WLDDonationFormProps> = ({
                 id="amount"
                 value={amount}
                 onChange={handleAmountChange}
-                placeholder={`Min: ${instructions.minAmount} WLD`}
+                readOnly={Boolean(pledge)}
+                placeholder={`Min: ${formatTokenAmount(instructions.minAmount)} WLD`}
                 className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
-                required
               />
             </div>
+            {balanceInfo}
           </div>
-          
+
+          {rewardFields}
+
+          {tipFields}
+
+          {recurringFields}
+
+          {personhoodFields}
+
+          {displayFields}
+
+          {errorAlert}
+
+          <button
+            type="button"
+            onClick={() => handleMiniKitPay()}
+            disabled={loading || exceedsBalance}
+            className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+              loading || exceedsBalance ? 'bg-blue-400' : 'bg-blue-600 hover:bg-blue-700'
+            } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
+          >
+            {loading ? 'Processing...' : 'Donate with World App'}
+          </button>
+          {isEscrow && (
+            <p className="text-xs text-gray-500">
+              Your WLD is held in escrow and refunded if the goal is not met by the deadline.
+            </p>
+          )}
+        </div>
+      ) : isEscrow ? (
+        <div className="p-4 text-sm text-gray-700">
+          This is an all-or-nothing campaign. Donations are held in escrow and can only be made
+          from World App, so that they can be refunded if the goal is not met.
+          {network.isTestnet && ' World App uses mainnet WLD, so escrow donations are disabled in test mode.'}
+        </div>
+      ) : !manualReady ? (
+        <form onSubmit={handleContinueManual} className="p-4 space-y-4">
           <div>
-            <label htmlFor="txHash" className="block text-sm font-medium text-gray-700">
-              Transaction Hash
+            <label htmlFor="amount" className="block text-sm font-medium text-gray-700">
+              Amount (WLD)
             </label>
             <div className="mt-1">
               <input
                 type="text"
-                id="txHash"
-                value={txHash}
-                onChange={(e) => setTxHash(e.target.value)}
-                placeholder="0x..."
+                id="amount"
+                value={amount}
+                onChange={handleAmountChange}
+                readOnly={Boolean(pledge)}
+                placeholder={`Min: ${formatTokenAmount(instructions.minAmount)} WLD`}
                 className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
                 required
               />
             </div>
-            {txHash && (
-              <button
-                type="button"
-                onClick={handleVerifyTransaction}
-                disabled={verifying}
-                className="mt-1 text-xs text-blue-600 hover:text-blue-800 flex items-center"
-              >
-                {verifying ? (
-                  <>
-                    <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-blue-600" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                    Verifying...
-                  </>
-                ) : (
-                  'Verify Transaction'
-                )}
-              </button>
-            )}
+            {balanceInfo}
           </div>
-          
-          {error && (
-            <div className="rounded-md bg-red-50 p-3">
-              <div className="flex">
-                <div className="flex-shrink-0">
-                  <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <div className="ml-3">
-                  <p className="text-sm text-red-700">{error}</p>
-                </div>
-              </div>
-            </div>
-          )}
-          
+
+          {rewardFields}
+
+          {recurringFields}
+
+          {personhoodFields}
+
+          {displayFields}
+
+          {errorAlert}
+
           <button
             type="submit"
-            disabled={loading}
-            className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
-              loading ? 'bg-blue-400' : 'bg-blue-600 hover:bg-blue-700'
-            } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
+            className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
-            {loading ? 'Processing...' : 'Confirm Donation'}
+            Continue to payment
           </button>
         </form>
-      </div>
+      ) : (
+        <div className="p-4">
+          <div className="mb-4 flex justify-between items-center">
+            <p className="text-sm text-gray-700">
+              Send exactly <span className="font-medium">{parsedAmount !== null ? formatTokenAmount(parsedAmount) : amount} WLD</span>
+            </p>
+            <button
+              type="button"
+              onClick={() => setManualReady(false)}
+              disabled={loading}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              Change
+            </button>
+          </div>
+
+          <div className="mb-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">Campaign Address:</p>
+            <div className="p-2 bg-gray-50 rounded-md border border-gray-200 text-sm break-all">
+              {instructions.campaignAddress}
+            </div>
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(instructions.campaignAddress);
+                alert('Address copied to clipboard!');
+              }}
+              className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+            >
+              Copy Address
+            </button>
+          </div>
+        
+          <div className="mb-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">Instructions:</p>
+            <ol className="list-decimal list-inside text-sm space-y-1 text-gray-600">
+              {instructions.instructions.map((instruction, index) => (
+                <li key={index}>{instruction}</li>
+              ))}
+            </ol>
+          </div>
+        
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="txHash" className="block text-sm font-medium text-gray-700">
+                Transaction Hash
+              </label>
+              <div className="mt-1">
+                <input
+                  type="text"
+                  id="txHash"
+                  value={txHash}
+                  onChange={(e) => setTxHash(e.target.value)}
+                  placeholder="0x..."
+                  className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  required
+                />
+              </div>
+              {txHash && (
+                <button
+                  type="button"
+                  onClick={handleVerifyTransaction}
+                  disabled={verifying}
+                  className="mt-1 text-xs text-blue-600 hover:text-blue-800 flex items-center"
+                >
+                  {verifying ? (
+                    <>
+                      <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-blue-600" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Verifying...
+                    </>
+                  ) : (
+                    'Verify Transaction'
+                  )}
+                </button>
+              )}
+            </div>
+
+            {errorAlert}
+          
+            <button
+              type="submit"
+              disabled={loading}
+              className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+                loading ? 'bg-blue-400' : 'bg-blue-600 hover:bg-blue-700'
+              } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
+            >
+              {loading ? 'Processing...' : 'Confirm Donation'}
+            </button>
+          </form>
+        </div>
+      ))}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,136 @@
+// src/services/WLDPaymentService.test.ts
+// verifyTransaction against a stub JSON-RPC endpoint standing in for World Chain
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ERC20_TRANSFER_TOPIC, addressToTopic, decodeTransferLog, RpcLog, RpcTransactionReceipt } from './WorldChainRpc';
+
+const TOKEN = '0x2cfc85d8e48f8eab294be644d9e25c3030863003';
+const CAMPAIGN = '0x1111111111111111111111111111111111111111';
+const DONOR = '0x2222222222222222222222222222222222222222';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const transferLog = (to: string, value: bigint, token = TOKEN): RpcLog => ({
+  address: token,
+  topics: [ERC20_TRANSFER_TOPIC, addressToTopic(DONOR), addressToTopic(to)],
+  data: `0x${value.toString(16).padStart(64, '0')}`,
+  blockNumber: '0x64',
+  transactionHash: TX_HASH,
+  logIndex: '0x0',
+});
+
+interface StubChain {
+  chainId: number;
+  latestBlock: bigint;
+  receipt: RpcTransactionReceipt | null;
+}
+
+let chain: StubChain;
+
+// Answers the handful of methods verifyTransaction uses, like a node would
+const stubRpc = async (_url: string, init: RequestInit): Promise<Response> => {
+  const { id, method } = JSON.parse(String(init.body));
+  const results: Record<string, unknown> = {
+    eth_chainId: `0x${chain.chainId.toString(16)}`,
+    eth_blockNumber: `0x${chain.latestBlock.toString(16)}`,
+    eth_getTransactionReceipt: chain.receipt,
+    eth_getBlockByNumber: { number: '0x64', timestamp: '0x65f00000' },
+  };
+  if (!(method in results)) {
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, error: { message: `unexpected ${method}` } }));
+  }
+  return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: results[method] }));
+};
+
+const loadService = async () => (await import('./WLDPaymentService')).wldPaymentService;
+
+describe('decodeTransferLog', () => {
+  it('decodes an ERC-20 Transfer', () => {
+    expect(decodeTransferLog(transferLog(CAMPAIGN, 5n * 10n ** 18n))).toEqual({
+      token: TOKEN,
+      from: DONOR,
+      to: CAMPAIGN,
+      value: 5n * 10n ** 18n,
+    });
+  });
+
+  it('ignores other events', () => {
+    const log = { ...transferLog(CAMPAIGN, 1n), topics: [`0x${'00'.repeat(32)}`, addressToTopic(DONOR)] };
+    expect(decodeTransferLog(log)).toBeNull();
+  });
+});
+
+describe('verifyTransaction', () => {
+  beforeEach(() => {
+    // The service reads the network and caches its chain check at module level
+    vi.resetModules();
+    vi.stubEnv('VITE_NETWORK', 'mainnet');
+    vi.stubEnv('VITE_WORLDCHAIN_RPC_URL', 'http://rpc.test');
+    vi.stubEnv('VITE_WLD_MIN_CONFIRMATIONS', '3');
+    vi.stubGlobal('fetch', vi.fn(stubRpc));
+    chain = {
+      chainId: 480,
+      latestBlock: 102n,
+      receipt: {
+        transactionHash: TX_HASH,
+        blockNumber: '0x64',
+        from: DONOR,
+        to: TOKEN,
+        status: '0x1',
+        logs: [transferLog(CAMPAIGN, 2n * 10n ** 18n)],
+      },
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('confirms a transfer with enough confirmations', async () => {
+    const result = await (await loadService()).verifyTransaction(TX_HASH, CAMPAIGN);
+    expect(result.success).toBe(true);
+    expect(result.transaction).toMatchObject({
+      from: DONOR,
+      to: CAMPAIGN,
+      amount: (2n * 10n ** 18n).toString(),
+      status: 'confirmed',
+      confirmations: 3,
+      blockNumber: 100,
+    });
+  });
+
+  it('keeps a transfer pending below the confirmation threshold', async () => {
+    chain.latestBlock = 100n;
+    const result = await (await loadService()).verifyTransaction(TX_HASH, CAMPAIGN);
+    expect(result.transaction?.status).toBe('pending');
+    expect(result.transaction?.confirmations).toBe(1);
+  });
+
+  it('reports a reverted transaction as failed', async () => {
+    chain.receipt = { ...chain.receipt!, status: '0x0', logs: [] };
+    const result = await (await loadService()).verifyTransaction(TX_HASH, CAMPAIGN);
+    expect(result.success).toBe(true);
+    expect(result.transaction).toMatchObject({ status: 'failed', amount: '0', from: DONOR });
+  });
+
+  it('rejects a transaction without a WLD transfer to the campaign', async () => {
+    chain.receipt = {
+      ...chain.receipt!,
+      logs: [transferLog(DONOR, 1n), transferLog(CAMPAIGN, 1n, `0x${'33'.repeat(20)}`)],
+    };
+    const result = await (await loadService()).verifyTransaction(TX_HASH, CAMPAIGN);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/does not contain a WLD transfer/);
+  });
+
+  it('reports a transaction that is not mined yet', async () => {
+    chain.receipt = null;
+    const result = await (await loadService()).verifyTransaction(TX_HASH, CAMPAIGN);
+    expect(result.error).toMatch(/not found/);
+  });
+
+  it('refuses an RPC endpoint on the wrong chain', async () => {
+    chain.chainId = 1;
+    const result = await (await loadService()).verifyTransaction(TX_HASH, CAMPAIGN);
+    expect(result.error).toMatch(/expected World Chain \(480\)/);
+  });
+});
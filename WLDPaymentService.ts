@@ -1,5 +1,25 @@
 // src/services/WLDPaymentService.ts
+import { encodeFunctionData, decodeFunctionResult, erc20Abi } from 'viem';
 import { authService } from './AuthService';
+import { worldChainRpc, decodeTransferLog } from './WorldChainRpc';
+import { TokenAmount } from '../utils/tokenAmount';
+import { validatePayoutAddress } from '../utils/address';
+import { network, NetworkConfig, getTransactionUrl, getAddressUrl } from '../config/network';
+
+// WLD ERC-20 token on the active network (lower-cased)
+export const WLD_TOKEN_ADDRESS = network.wldTokenAddress;
+
+// Blocks required on top of the transaction's block before it counts as confirmed
+export const MIN_CONFIRMATIONS = Number(import.meta.env.VITE_WLD_MIN_CONFIRMATIONS || 3);
+
+// Used when a campaign does not set its own minimum
+export const DEFAULT_MIN_AMOUNT: TokenAmount = '10000000000000000'; // 0.01 WLD
+
+const DEFAULT_INSTRUCTIONS = [
+  'Send WLD tokens to the campaign address using your wallet',
+  'Copy the transaction hash once the transaction is confirmed',
+  'Submit the transaction hash and amount to record your donation'
+];
 
 // Transaction status enum
 export enum TransactionStatus {
@@ -13,15 +33,34 @@ export interface WLDTransaction {
   txHash: string;
   from: string;
   to: string;
-  amount: number;
+  amount: TokenAmount;
   status: TransactionStatus;
   timestamp: number;
+  confirmations: number;
+  blockNumber?: number;
   campaignId?: string;
 }
 
+export interface GasEstimate {
+  gasLimit: bigint;
+  gasPrice: bigint;
+  // Estimated fee in wei of the native token (ETH)
+  fee: bigint;
+  // Whether the wallet holds enough ETH to cover the fee
+  sufficient: boolean;
+}
+
+export interface DonationInstructions {
+  campaignAddress: string;
+  instructions: string[];
+  minAmount: TokenAmount;
+}
+
 // Payment service class
 class WLDPaymentService {
   private static instance: WLDPaymentService;
+  // Set once the RPC endpoint has been checked against the configured chain
+  private chainChecked = false;
 
   private constructor() {}
 
@@ -58,76 +97,157 @@ class WLDPaymentService {
     return apiBase;
   }
 
-  // Donate to a campaign
-  public async donateWLD(
-    campaignId: string, 
-    amount: number, 
-    txHash: string
-  ): Promise<{ success: boolean; error?: string }> {
-    try {
-      const apiBase = this.getApiBase();
-      const headers = await this.getHeaders();
+  // Get donation instructions for a campaign, including its payout address
+  public async getDonationInstructions(campaignId: string): Promise<DonationInstructions> {
+    const apiBase = this.getApiBase();
+    const headers = await this.getHeaders();
 
-      const response = await fetch(`${apiBase}/campaigns/${campaignId}/donate`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ amount, txHash }),
-      });
+    const response = await fetch(`${apiBase}/campaigns/${campaignId}/donation-instructions`, {
+      method: 'GET',
+      headers,
+    });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ message: 'Failed to record donation' }));
-        throw new Error(errorData.message || 'Failed to record donation');
-      }
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: 'Failed to load donation instructions' }));
+      throw new Error(errorData.message || 'Failed to load donation instructions');
+    }
 
-      const data = await response.json();
-      return { success: true };
-    } catch (error: any) {
-      console.error('Failed to donate WLD:', error);
-      return { success: false, error: error.message || 'Failed to donate WLD' };
+    const data = await response.json();
+    const address = validatePayoutAddress(data.campaignAddress || '');
+    if (!address.valid) {
+      throw new Error(`Campaign payout address is invalid: ${address.error}`);
     }
-  }
 
-  // Get donation instructions
-  public async getDonationInstructions(campaignId: string): Promise<{
-    campaignAddress: string;
-    instructions: string[];
-    minAmount: number;
-  }> {
-    // In a real app, this would fetch from the API
-    // For now, return mock data
     return {
-      campaignAddress: '0x5816E346C014e4BE06bA48de8c0Bf08A61f9033F',
-      instructions: [
-        'Send WLD tokens to the campaign address using your wallet',
-        'Copy the transaction hash once the transaction is confirmed',
-        'Submit the transaction hash and amount to record your donation'
-      ],
-      minAmount: 0.01
+      campaignAddress: address.checksummed,
+      instructions: Array.isArray(data.instructions) && data.instructions.length > 0
+        ? data.instructions
+        : DEFAULT_INSTRUCTIONS,
+      minAmount: data.minAmount || DEFAULT_MIN_AMOUNT,
     };
   }
 
-  // Verify a transaction
-  public async verifyTransaction(txHash: string): Promise<{
+  /** Network the service is configured for */
+  public getNetwork(): NetworkConfig {
+    return network;
+  }
+
+  /** Explorer links for the active network; null when it has no explorer */
+  public getTransactionUrl(txHash: string): string | null {
+    return getTransactionUrl(txHash);
+  }
+
+  public getAddressUrl(address: string): string | null {
+    return getAddressUrl(address);
+  }
+
+  /** WLD balance of a wallet, read on-chain */
+  public async getWalletBalance(walletAddress: string): Promise<{ success: boolean; balance?: TokenAmount; error?: string }> {
+    try {
+      const data = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [walletAddress as `0x${string}`],
+      });
+      const result = await worldChainRpc.ethCall(WLD_TOKEN_ADDRESS, data);
+      const balance = decodeFunctionResult({ abi: erc20Abi, functionName: 'balanceOf', data: result as `0x${string}` });
+      return { success: true, balance: balance.toString() };
+    } catch (error: any) {
+      console.error('[WLDPaymentService] getWalletBalance error:', error);
+      return { success: false, error: error.message || 'Failed to load WLD balance' };
+    }
+  }
+
+  /** Estimate the network fee for sending a WLD transfer from a wallet */
+  public async estimateTransferGas(
+    from: string,
+    to: string,
+    amount: TokenAmount
+  ): Promise<{ success: boolean; estimate?: GasEstimate; error?: string }> {
+    try {
+      const data = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [to as `0x${string}`, BigInt(amount)],
+      });
+      const [gasLimit, gasPrice, nativeBalance] = await Promise.all([
+        worldChainRpc.estimateGas({ from, to: WLD_TOKEN_ADDRESS, data }),
+        worldChainRpc.getGasPrice(),
+        worldChainRpc.getBalance(from),
+      ]);
+      const fee = gasLimit * gasPrice;
+      return { success: true, estimate: { gasLimit, gasPrice, fee, sufficient: nativeBalance >= fee } };
+    } catch (error: any) {
+      console.error('[WLDPaymentService] estimateTransferGas error:', error);
+      return { success: false, error: error.message || 'Failed to estimate gas' };
+    }
+  }
+
+  // A misconfigured RPC would verify transactions on the wrong chain
+  private async ensureChain(): Promise<void> {
+    if (this.chainChecked) return;
+    const chainId = await worldChainRpc.getChainId();
+    if (chainId !== network.chainId) {
+      throw new Error(`RPC endpoint is on chain ${chainId}, expected ${network.label} (${network.chainId})`);
+    }
+    this.chainChecked = true;
+  }
+
+  // Verify a transaction on-chain: it must contain a WLD transfer to the campaign address
+  public async verifyTransaction(txHash: string, campaignAddress: string): Promise<{
     success: boolean;
     transaction?: WLDTransaction;
     error?: string;
   }> {
-    // In a real app, this would call the API to verify the transaction
-    // For now, simulate a successful verification
     try {
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Return mock transaction data
+      if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+        throw new Error('Invalid transaction hash');
+      }
+
+      await this.ensureChain();
+
+      const receipt = await worldChainRpc.getTransactionReceipt(txHash);
+      if (!receipt) {
+        throw new Error('Transaction not found. It may not have been mined yet.');
+      }
+
+      // A reverted transaction emits no logs, so it is reported as failed rather than as missing a transfer
+      const reverted = receipt.status !== '0x1';
+      const recipient = campaignAddress.toLowerCase();
+      const transfers = receipt.logs
+        .map(decodeTransferLog)
+        .filter((t): t is NonNullable<typeof t> => !!t && t.token === WLD_TOKEN_ADDRESS && t.to === recipient);
+
+      if (!reverted && transfers.length === 0) {
+        throw new Error('Transaction does not contain a WLD transfer to the campaign address');
+      }
+
+      const blockNumber = BigInt(receipt.blockNumber);
+      const [latestBlock, block] = await Promise.all([
+        worldChainRpc.getBlockNumber(),
+        worldChainRpc.getBlock(blockNumber),
+      ]);
+      const confirmations = Number(latestBlock - blockNumber + 1n);
+      const value = transfers.reduce((sum, t) => sum + t.value, 0n);
+
+      let status = TransactionStatus.PENDING;
+      if (reverted) {
+        status = TransactionStatus.FAILED;
+      } else if (confirmations >= MIN_CONFIRMATIONS) {
+        status = TransactionStatus.CONFIRMED;
+      }
+
       return {
         success: true,
         transaction: {
           txHash,
-          from: '0x' + Math.random().toString(16).substring(2, 42),
-          to: '0x5816E346C014e4BE06bA48de8c0Bf08A61f9033F',
-          amount: Math.random() * 100,
-          status: TransactionStatus.CONFIRMED,
-          timestamp: Date.now()
+          from: transfers[0]?.from ?? receipt.from.toLowerCase(),
+          to: recipient,
+          amount: value.toString(),
+          status,
+          timestamp: block ? Number(BigInt(block.timestamp)) * 1000 : Date.now(),
+          confirmations,
+          blockNumber: Number(blockNumber),
         }
       };
     } catch (error: any) {
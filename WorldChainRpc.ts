@@ -0,0 +1,175 @@
+// src/services/WorldChainRpc.ts
+// Minimal JSON-RPC client for reading World Chain state (receipts, blocks, logs, contract calls)
+
+import { network } from '../config/network';
+
+// keccak256("Transfer(address,address,uint256)")
+export const ERC20_TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+export interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+export interface RpcTransactionReceipt {
+  transactionHash: string;
+  blockNumber: string;
+  from: string;
+  to: string | null;
+  status: string; // '0x1' success, '0x0' reverted
+  logs: RpcLog[];
+}
+
+export interface RpcLogFilter {
+  address?: string;
+  topics?: Array<string | null>;
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+export interface RpcBlock {
+  number: string;
+  timestamp: string;
+}
+
+// Decoded ERC-20 Transfer event
+export interface TransferEvent {
+  token: string;
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+/** Convert an indexed 32-byte topic into a lower-cased 20-byte address */
+const topicToAddress = (topic: string): string => `0x${topic.slice(-40)}`.toLowerCase();
+
+/** Left-pad an address into a 32-byte topic for eth_getLogs filters */
+export const addressToTopic = (address: string): string =>
+  `0x${address.toLowerCase().replace(/^0x/, '').padStart(64, '0')}`;
+
+const toHex = (value: bigint): string => `0x${value.toString(16)}`;
+
+/** Decode an ERC-20 Transfer log, or null if the log is not a Transfer */
+export const decodeTransferLog = (log: RpcLog): TransferEvent | null => {
+  if (!log.topics || log.topics.length !== 3) return null;
+  if (log.topics[0]?.toLowerCase() !== ERC20_TRANSFER_TOPIC) return null;
+  return {
+    token: log.address.toLowerCase(),
+    from: topicToAddress(log.topics[1]!),
+    to: topicToAddress(log.topics[2]!),
+    value: BigInt(log.data === '0x' ? 0 : log.data),
+  };
+};
+
+class WorldChainRpcService {
+  private static instance: WorldChainRpcService;
+  private rpcUrl: string;
+  private requestId = 0;
+
+  // Defaults to the active network's endpoint, or VITE_WORLDCHAIN_RPC_URL when set
+  private constructor(rpcUrl: string = network.rpcUrl) {
+    this.rpcUrl = rpcUrl;
+    console.log('[WorldChainRpc] Initialized with RPC URL:', this.rpcUrl);
+  }
+
+  /** Get singleton instance */
+  public static getInstance(): WorldChainRpcService {
+    if (!WorldChainRpcService.instance) {
+      WorldChainRpcService.instance = new WorldChainRpcService();
+    }
+    return WorldChainRpcService.instance;
+  }
+
+  public getRpcUrl(): string {
+    return this.rpcUrl;
+  }
+
+  /**
+   * Separate client for another endpoint, e.g. a local anvil node or stub server.
+   * The shared instance keeps the configured endpoint, which payment verification relies on.
+   */
+  public withRpcUrl(url: string): WorldChainRpcService {
+    return new WorldChainRpcService(url);
+  }
+
+  /** Send a raw JSON-RPC request and return its result */
+  public async call<T>(method: string, params: unknown[] = []): Promise<T> {
+    const res = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+    });
+    if (!res.ok) {
+      throw new Error(`RPC request ${method} failed (${res.status})`);
+    }
+    const body = await res.json();
+    if (body.error) {
+      throw new Error(body.error.message || `RPC error calling ${method}`);
+    }
+    return body.result as T;
+  }
+
+  /** Fetch a transaction receipt; null while the transaction is not mined */
+  public async getTransactionReceipt(txHash: string): Promise<RpcTransactionReceipt | null> {
+    return this.call<RpcTransactionReceipt | null>('eth_getTransactionReceipt', [txHash]);
+  }
+
+  /** Chain ID reported by the endpoint */
+  public async getChainId(): Promise<number> {
+    const result = await this.call<string>('eth_chainId');
+    return Number(BigInt(result));
+  }
+
+  /** Latest block number */
+  public async getBlockNumber(): Promise<bigint> {
+    const result = await this.call<string>('eth_blockNumber');
+    return BigInt(result);
+  }
+
+  /** Fetch a block header by number */
+  public async getBlock(blockNumber: bigint): Promise<RpcBlock | null> {
+    return this.call<RpcBlock | null>('eth_getBlockByNumber', [toHex(blockNumber), false]);
+  }
+
+  /** Execute a read-only contract call against the latest block */
+  public async ethCall(to: string, data: string): Promise<string> {
+    return this.call<string>('eth_call', [{ to, data }, 'latest']);
+  }
+
+  /** Estimate gas for a call from an account */
+  public async estimateGas(tx: { from: string; to: string; data: string }): Promise<bigint> {
+    const result = await this.call<string>('eth_estimateGas', [tx]);
+    return BigInt(result);
+  }
+
+  /** Current gas price in wei */
+  public async getGasPrice(): Promise<bigint> {
+    const result = await this.call<string>('eth_gasPrice');
+    return BigInt(result);
+  }
+
+  /** Native (ETH) balance in wei */
+  public async getBalance(address: string): Promise<bigint> {
+    const result = await this.call<string>('eth_getBalance', [address, 'latest']);
+    return BigInt(result);
+  }
+
+  /** Fetch logs matching a filter over an inclusive block range */
+  public async getLogs(filter: RpcLogFilter): Promise<RpcLog[]> {
+    return this.call<RpcLog[]>('eth_getLogs', [{
+      address: filter.address,
+      topics: filter.topics,
+      fromBlock: toHex(filter.fromBlock),
+      toBlock: toHex(filter.toBlock),
+    }]);
+  }
+}
+
+export type WorldChainRpcClient = WorldChainRpcService;
+
+export const worldChainRpc = WorldChainRpcService.getInstance();
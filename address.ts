@@ -0,0 +1,29 @@
+// src/utils/address.ts
+import { getAddress, isAddress } from 'viem';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export type AddressValidation =
+  | { valid: true; checksummed: string }
+  | { valid: false; error: string };
+
+/**
+ * Validate an address that will receive funds. Mixed-case input must match its
+ * EIP-55 checksum; single-case input carries no checksum and is accepted, but
+ * callers should show the checksummed form back to the user for confirmation.
+ */
+export const validatePayoutAddress = (value: string): AddressValidation => {
+  const address = value.trim();
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return { valid: false, error: 'Address must be 0x followed by 40 hexadecimal characters' };
+  }
+  const body = address.slice(2);
+  const isSingleCase = body === body.toLowerCase() || body === body.toUpperCase();
+  if (!isSingleCase && !isAddress(address, { strict: true })) {
+    return { valid: false, error: 'Address checksum is invalid. Check for typos.' };
+  }
+  if (address.toLowerCase() === ZERO_ADDRESS) {
+    return { valid: false, error: 'The zero address cannot receive donations' };
+  }
+  return { valid: true, checksummed: getAddress(address) };
+};
@@ -0,0 +1,19 @@
+// src/utils/campaignGoal.ts
+// Goal state for a campaign. Sponsor matches count towards the goal, as they do in the
+// progress bar; the backend applies the same rule when it auto-completes a campaign.
+
+import type { Campaign, OverfundingPolicy } from '../services/CampaignService';
+import { getEffectiveRaised } from './matching';
+import { toBigInt } from './tokenAmount';
+
+export const getOverfundingPolicy = (campaign: Campaign): OverfundingPolicy =>
+  campaign.overfundingPolicy ?? 'allow_stretch';
+
+export const isGoalReached = (campaign: Campaign): boolean => {
+  const goal = toBigInt(campaign.goal);
+  return goal > 0n && getEffectiveRaised(campaign) >= goal;
+};
+
+/** Active complete_at_goal campaigns that have reached their goal should be completed */
+export const shouldAutoComplete = (campaign: Campaign): boolean =>
+  campaign.status === 'active' && getOverfundingPolicy(campaign) === 'complete_at_goal' && isGoalReached(campaign);
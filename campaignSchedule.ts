@@ -0,0 +1,60 @@
+// src/utils/campaignSchedule.ts
+// Launch dates and deadlines. A campaign accepts donations from its start date until its
+// end date; all-or-nothing campaigns created before endDate existed use their escrow deadline.
+
+import type { Campaign } from '../services/CampaignService';
+
+export type SchedulePhase = 'upcoming' | 'open' | 'ended';
+
+type Scheduled = Pick<Campaign, 'startDate' | 'endDate' | 'escrowDeadline'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getCampaignEndDate = (campaign: Scheduled): string | undefined =>
+  campaign.endDate || campaign.escrowDeadline;
+
+export const getSchedulePhase = (campaign: Scheduled, now: number = Date.now()): SchedulePhase => {
+  if (campaign.startDate && now < new Date(campaign.startDate).getTime()) return 'upcoming';
+  const endDate = getCampaignEndDate(campaign);
+  if (endDate && now >= new Date(endDate).getTime()) return 'ended';
+  return 'open';
+};
+
+/** Active and inside its schedule; the backend rejects donations outside this window too */
+export const isOpenForDonations = (campaign: Campaign, now: number = Date.now()): boolean =>
+  campaign.status === 'active' && getSchedulePhase(campaign, now) === 'open';
+
+/** Whole days until the deadline, rounded up; null when the campaign has no end date */
+export const getDaysLeft = (campaign: Scheduled, now: number = Date.now()): number | null => {
+  const endDate = getCampaignEndDate(campaign);
+  if (!endDate) return null;
+  return Math.max(0, Math.ceil((new Date(endDate).getTime() - now) / DAY_MS));
+};
+
+/** Compact duration such as "3d 4h", "5h 12m" or "4m 9s" */
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86_400);
+  const hours = Math.floor((totalSeconds % 86_400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+};
+
+/** ISO timestamp to the local "YYYY-MM-DDTHH:mm" value a datetime-local input expects */
+export const toDateTimeInput = (iso?: string): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** Datetime-local input value to a Date, or null when empty or invalid */
+export const fromDateTimeInput = (value?: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
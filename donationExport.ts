@@ -0,0 +1,84 @@
+// src/utils/donationExport.ts
+// Donation exports for campaign owners (CSV / JSON).
+
+import type { Campaign, DonationStatus } from '../services/CampaignService';
+import { formatUnits } from './tokenAmount';
+
+export interface DonationExportRow {
+  campaignId: string;
+  campaignTitle: string;
+  id: string;
+  donor: string;
+  // Exact decimal WLD, e.g. "1.5"
+  amount: string;
+  txHash: string;
+  createdAt: string;
+  status: DonationStatus;
+}
+
+export interface DonationExportFilters {
+  // Inclusive calendar dates (yyyy-mm-dd) in local time
+  from?: string;
+  to?: string;
+  // Empty or missing means every status
+  statuses?: DonationStatus[];
+}
+
+/** Flatten the donations of one or more campaigns, applying the filters */
+export const collectDonations = (
+  campaigns: Campaign[],
+  filters: DonationExportFilters = {}
+): DonationExportRow[] => {
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+  const statuses = filters.statuses && filters.statuses.length > 0 ? filters.statuses : null;
+
+  return campaigns
+    .flatMap(campaign =>
+      (campaign.donations || []).map(donation => ({
+        campaignId: campaign.id,
+        campaignTitle: campaign.title,
+        id: donation.id,
+        donor: donation.donor,
+        amount: formatUnits(donation.amount),
+        txHash: donation.txHash,
+        createdAt: donation.createdAt,
+        status: donation.status ?? 'confirmed',
+      }))
+    )
+    .filter(row => {
+      const createdAt = new Date(row.createdAt).getTime();
+      return createdAt >= from && createdAt <= to && (!statuses || statuses.includes(row.status));
+    })
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+const CSV_COLUMNS: Array<keyof DonationExportRow> = [
+  'campaignId',
+  'campaignTitle',
+  'id',
+  'donor',
+  'amount',
+  'txHash',
+  'createdAt',
+  'status',
+];
+
+/**
+ * Quote a value for CSV. Cells that a spreadsheet would read as a formula
+ * (leading =, +, -, @, tab or carriage return) are prefixed with a single quote.
+ */
+export const escapeCsvValue = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (rows: DonationExportRow[]): string => {
+  const lines = [CSV_COLUMNS.join(',')];
+  rows.forEach(row => {
+    lines.push(CSV_COLUMNS.map(column => escapeCsvValue(String(row[column] ?? ''))).join(','));
+  });
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+export const toJson = (rows: DonationExportRow[]): string => JSON.stringify(rows, null, 2);
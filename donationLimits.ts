@@ -0,0 +1,35 @@
+// src/config/donationLimits.ts
+// Safeguards on donation size, configured in WLD. Each limit is off when its variable is unset.
+//   VITE_DONATION_REVIEW_THRESHOLD  above this, the donor must confirm a review step
+//   VITE_DONATION_ORB_THRESHOLD     above this, Orb-level World ID verification is required
+//   VITE_DONATION_DAILY_CAP         most one human (World ID nullifier) may give per day
+
+import { tryParseTokenAmount } from '../utils/tokenAmount';
+
+export interface DonationLimits {
+  reviewThreshold: bigint | null;
+  orbThreshold: bigint | null;
+  dailyCapPerHuman: bigint | null;
+}
+
+const parseLimit = (value: string | undefined, name: string): bigint | null => {
+  if (!value) return null;
+  const parsed = tryParseTokenAmount(value.trim());
+  if (parsed === null || parsed <= 0n) {
+    console.warn(`[donationLimits] Ignoring invalid ${name}: ${value}`);
+    return null;
+  }
+  return parsed;
+};
+
+export const donationLimits: DonationLimits = {
+  reviewThreshold: parseLimit(import.meta.env.VITE_DONATION_REVIEW_THRESHOLD, 'VITE_DONATION_REVIEW_THRESHOLD'),
+  orbThreshold: parseLimit(import.meta.env.VITE_DONATION_ORB_THRESHOLD, 'VITE_DONATION_ORB_THRESHOLD'),
+  dailyCapPerHuman: parseLimit(import.meta.env.VITE_DONATION_DAILY_CAP, 'VITE_DONATION_DAILY_CAP'),
+};
+
+export const requiresReview = (amount: bigint): boolean =>
+  donationLimits.reviewThreshold !== null && amount > donationLimits.reviewThreshold;
+
+export const requiresOrbVerification = (amount: bigint): boolean =>
+  donationLimits.orbThreshold !== null && amount > donationLimits.orbThreshold;
@@ -0,0 +1,50 @@
+// src/utils/donorDisplay.ts
+// How donors appear publicly. Names and messages are user-supplied, so they are
+// cleaned before they are sent and again before they are shown.
+
+import type { Donation, DonorDisplayMode } from '../services/CampaignService';
+
+// Sent with a new donation
+export interface DonorDisplayOptions {
+  displayMode: DonorDisplayMode;
+  displayName?: string;
+  message?: string;
+}
+
+export const MAX_DISPLAY_NAME_LENGTH = 40;
+export const MAX_DONATION_MESSAGE_LENGTH = 280;
+
+// Control characters, zero-width characters and bidi overrides can hide or reorder text
+const UNSAFE_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+/** Strip invisible and direction-changing characters, collapse whitespace and cap the length */
+export const sanitizeDisplayText = (value: string | undefined | null, maxLength: number, multiline = false): string => {
+  if (!value) return '';
+  let text = value.normalize('NFC').replace(UNSAFE_CHARACTERS, '');
+  text = multiline
+    ? text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n')
+    : text.replace(/\s+/g, ' ');
+  text = text.trim();
+  // Slice by code point so surrogate pairs are never split
+  const chars = Array.from(text);
+  return chars.length > maxLength ? `${chars.slice(0, maxLength - 1).join('')}…` : text;
+};
+
+export const shortenAddress = (address: string): string =>
+  address ? `${address.slice(0, 6)}...${address.slice(-4)}` : 'Unknown';
+
+/** Public label for a donation's donor */
+export const getDonorLabel = (donation: Donation): string => {
+  if (donation.displayMode === 'anonymous') return 'Anonymous';
+  const name = sanitizeDisplayText(donation.displayName, MAX_DISPLAY_NAME_LENGTH);
+  if (name) {
+    return donation.displayMode === 'username' ? `@${name.replace(/^@/, '')}` : name;
+  }
+  return shortenAddress(donation.donor);
+};
+
+/** Public message for a donation, or null when there is none or moderation hid it */
+export const getDonationMessage = (donation: Donation): string | null => {
+  if (donation.messageHidden) return null;
+  return sanitizeDisplayText(donation.message, MAX_DONATION_MESSAGE_LENGTH, true) || null;
+};
@@ -0,0 +1,14 @@
+// src/utils/download.ts
+
+/** Save a generated file through a temporary link */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns, so revoke on the next tick
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -5,6 +5,21 @@ interface ImportMetaEnv {
   readonly VITE_WORLD_ACTION_ID: string;
   readonly VITE_DATABASE_URL: string;
   readonly VITE_JWT_SECRET: string;
+  readonly VITE_NETWORK?: string;
+  readonly VITE_CHAIN_ID?: string;
+  readonly VITE_EXPLORER_URL?: string;
+  readonly VITE_WORLDCHAIN_RPC_URL?: string;
+  readonly VITE_WLD_TOKEN_ADDRESS?: string;
+  readonly VITE_WLD_MIN_CONFIRMATIONS?: string;
+  readonly VITE_RECONCILE_BLOCK_RANGE?: string;
+  readonly VITE_ESCROW_CONTRACT_ADDRESS?: string;
+  readonly VITE_PLATFORM_FEE_ADDRESS?: string;
+  readonly VITE_PLATFORM_TIP_OPTIONS?: string;
+  readonly VITE_PLATFORM_TIP_DEFAULT_PERCENT?: string;
+  readonly VITE_PLATFORM_TIP_MAX_PERCENT?: string;
+  readonly VITE_DONATION_REVIEW_THRESHOLD?: string;
+  readonly VITE_DONATION_ORB_THRESHOLD?: string;
+  readonly VITE_DONATION_DAILY_CAP?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,86 @@
+// src/utils/matching.test.ts
+import { describe, expect, it } from 'vitest';
+import { computeMatching, getEffectiveRaised } from './matching';
+import type { Campaign, Donation, MatchingPledge } from '../services/CampaignService';
+
+const WLD = 10n ** 18n;
+
+let donationCount = 0;
+const donation = (wld: bigint, patch: Partial<Donation> = {}): Donation => ({
+  id: `donation-${++donationCount}`,
+  amount: (wld * WLD).toString(),
+  donor: '0x2222222222222222222222222222222222222222',
+  txHash: `0x${donationCount.toString(16).padStart(64, '0')}`,
+  createdAt: '2026-03-10T00:00:00.000Z',
+  currency: 'WLD',
+  status: 'confirmed',
+  ...patch,
+});
+
+const pledge = (patch: Partial<MatchingPledge> = {}): MatchingPledge => ({
+  id: 'pledge-1',
+  sponsorName: 'Sponsor',
+  ratio: 1,
+  cap: (100n * WLD).toString(),
+  createdAt: '2026-03-01T00:00:00.000Z',
+  expiresAt: '2026-03-31T00:00:00.000Z',
+  ...patch,
+});
+
+const campaign = (donations: Donation[], matchingPledges: MatchingPledge[] = []): Campaign => ({
+  id: 'campaign-1',
+  title: 'Campaign',
+  description: '',
+  goal: (1000n * WLD).toString(),
+  raised: '0',
+  payoutAddress: '0x1111111111111111111111111111111111111111',
+  ownerId: '0x3333333333333333333333333333333333333333',
+  status: 'active',
+  createdAt: '2026-02-01T00:00:00.000Z',
+  updatedAt: '2026-02-01T00:00:00.000Z',
+  donations,
+  matchingPledges,
+  currency: 'WLD',
+});
+
+describe('getEffectiveRaised', () => {
+  it('is the confirmed total when there are no matching pledges', () => {
+    expect(getEffectiveRaised(campaign([donation(10n), donation(5n, { status: 'pending' })]))).toBe(10n * WLD);
+  });
+
+  it('adds each pledge\'s match to confirmed donations', () => {
+    const raised = getEffectiveRaised(campaign(
+      [donation(10n), donation(20n)],
+      [pledge(), pledge({ id: 'pledge-2', ratio: 0.5 })]
+    ));
+    // 30 donated, 30 matched 1:1 and 15 matched at half
+    expect(raised).toBe(75n * WLD);
+  });
+
+  it('stops matching at the cap', () => {
+    expect(getEffectiveRaised(campaign([donation(10n), donation(20n)], [pledge({ cap: (25n * WLD).toString() })]))).toBe(55n * WLD);
+  });
+
+  it('only matches confirmed donations made while the pledge was open', () => {
+    const raised = getEffectiveRaised(campaign(
+      [
+        donation(10n),
+        donation(20n, { status: 'pending' }),
+        donation(40n, { createdAt: '2026-02-28T00:00:00.000Z' }),
+        donation(80n, { createdAt: '2026-04-01T00:00:00.000Z' }),
+      ],
+      [pledge()]
+    ));
+    // Confirmed: 10 + 40 + 80; only the 10 WLD donation falls inside the pledge window
+    expect(raised).toBe(140n * WLD);
+  });
+
+  it('counts paid matches once', () => {
+    const unpaid = campaign([donation(10n)], [pledge()]);
+    const paid = campaign([donation(10n)], [pledge({ paidAmount: (10n * WLD).toString() })]);
+
+    expect(getEffectiveRaised(paid)).toBe(getEffectiveRaised(unpaid));
+    expect(computeMatching(paid).totalPending).toBe(0n);
+    expect(computeMatching(unpaid).totalPending).toBe(10n * WLD);
+  });
+});
@@ -0,0 +1,92 @@
+// src/utils/matching.ts
+// Sponsor matching: each matching pledge adds ratio × amount for every eligible donation,
+// in the order donations were made, until its cap is used up.
+
+import type { Campaign, Donation, MatchingPledge } from '../services/CampaignService';
+import { getConfirmedRaised } from '../services/CampaignService';
+import { toBigInt } from './tokenAmount';
+
+// Ratios are applied in basis points so the maths stays in bigint
+const RATIO_SCALE = 10_000n;
+
+export interface MatchingProgress {
+  pledge: MatchingPledge;
+  // Amount the sponsor owes so far, capped
+  matched: bigint;
+  cap: bigint;
+  expired: boolean;
+  // Matches already paid out by the sponsor
+  paid: bigint;
+  // matched - paid
+  pending: bigint;
+}
+
+export interface MatchingSummary {
+  pledges: MatchingProgress[];
+  // Donation id → total matched across every pledge
+  matchedByDonation: Record<string, bigint>;
+  totalMatched: bigint;
+  totalPending: bigint;
+}
+
+const ratioToBps = (ratio: number): bigint =>
+  Number.isFinite(ratio) && ratio > 0 ? BigInt(Math.round(ratio * Number(RATIO_SCALE))) : 0n;
+
+/** A donation counts towards a pledge if it confirmed while the pledge was open */
+export const isEligibleForMatch = (donation: Donation, pledge: MatchingPledge): boolean => {
+  if ((donation.status ?? 'confirmed') !== 'confirmed') return false;
+  const createdAt = new Date(donation.createdAt).getTime();
+  return createdAt >= new Date(pledge.createdAt).getTime() && createdAt <= new Date(pledge.expiresAt).getTime();
+};
+
+export const describeRatio = (ratio: number): string =>
+  ratio === 1 ? '1:1' : `${ratio}:1`;
+
+/** Matched amounts for a campaign's donations under each of its matching pledges */
+export const computeMatching = (campaign: Campaign, now: number = Date.now()): MatchingSummary => {
+  const donations = [...(campaign.donations || [])].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const matchedByDonation: Record<string, bigint> = {};
+
+  const pledges = (campaign.matchingPledges || []).map(pledge => {
+    const cap = toBigInt(pledge.cap);
+    const bps = ratioToBps(pledge.ratio);
+    let matched = 0n;
+
+    for (const donation of donations) {
+      if (matched >= cap) break;
+      if (!isEligibleForMatch(donation, pledge)) continue;
+      const remaining = cap - matched;
+      const raw = (toBigInt(donation.amount) * bps) / RATIO_SCALE;
+      const match = raw < remaining ? raw : remaining;
+      if (match <= 0n) continue;
+      matched += match;
+      matchedByDonation[donation.id] = (matchedByDonation[donation.id] ?? 0n) + match;
+    }
+
+    const paid = toBigInt(pledge.paidAmount);
+    return {
+      pledge,
+      matched,
+      cap,
+      expired: new Date(pledge.expiresAt).getTime() < now,
+      paid,
+      pending: matched > paid ? matched - paid : 0n,
+    };
+  });
+
+  return {
+    pledges,
+    matchedByDonation,
+    totalMatched: pledges.reduce((sum, p) => sum + p.matched, 0n),
+    totalPending: pledges.reduce((sum, p) => sum + p.pending, 0n),
+  };
+};
+
+/**
+ * Confirmed donations plus every match they earned. Matches the sponsor has not paid yet
+ * are included; paid matches are not recorded as donations, so nothing is counted twice.
+ */
+export const getEffectiveRaised = (campaign: Campaign): bigint =>
+  getConfirmedRaised(campaign) + computeMatching(campaign).totalMatched;
@@ -0,0 +1,104 @@
+// src/utils/milestones.ts
+// Milestones split the progress bar into segments. The bar spans up to the goal or the
+// highest milestone, whichever is larger, so stretch milestones beyond the goal still show.
+
+import type { Campaign, CampaignMilestone } from '../services/CampaignService';
+import { TokenAmount, formatUnits, toBigInt, tryParseTokenAmount } from './tokenAmount';
+
+export const MAX_MILESTONES = 10;
+export const MAX_MILESTONE_TITLE_LENGTH = 60;
+export const MAX_MILESTONE_DESCRIPTION_LENGTH = 280;
+
+// Milestone as edited in a form; the amount is the typed decimal WLD
+export interface MilestoneInput {
+  amount: string;
+  title: string;
+  description: string;
+}
+
+export interface MilestoneSegment {
+  // Lower and upper bound of the segment in base units
+  from: bigint;
+  to: bigint;
+  // Share of the whole bar and how much of this segment is filled, both 0-100
+  widthPercent: number;
+  fillPercent: number;
+  // The milestone ending at this segment; absent for the stretch up to the goal
+  milestone?: CampaignMilestone;
+  reached: boolean;
+}
+
+export const sortMilestones = (milestones: CampaignMilestone[] = []): CampaignMilestone[] =>
+  [...milestones].sort((a, b) => {
+    const diff = toBigInt(a.amount) - toBigInt(b.amount);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  });
+
+// Two decimal places of percentage, still computed in bigint
+const percentOf = (part: bigint, whole: bigint): number =>
+  whole > 0n ? Number((part * 10_000n) / whole) / 100 : 0;
+
+/** Bar segments for a raised total; one per milestone, plus the remainder up to the goal */
+export const getMilestoneSegments = (campaign: Campaign, raised: TokenAmount | bigint): MilestoneSegment[] => {
+  const milestones = sortMilestones(campaign.milestones);
+  const goal = toBigInt(campaign.goal);
+  const total = toBigInt(raised);
+  const last = milestones.length > 0 ? toBigInt(milestones[milestones.length - 1].amount) : 0n;
+  const scale = goal > last ? goal : last;
+
+  const bounds: Array<{ to: bigint; milestone?: CampaignMilestone }> = milestones.map(milestone => ({
+    to: toBigInt(milestone.amount),
+    milestone,
+  }));
+  if (goal > last) bounds.push({ to: goal });
+
+  let from = 0n;
+  return bounds.map(({ to, milestone }) => {
+    const filled = total <= from ? 0n : total >= to ? to - from : total - from;
+    const segment: MilestoneSegment = {
+      from,
+      to,
+      widthPercent: percentOf(to - from, scale),
+      fillPercent: percentOf(filled, to - from),
+      milestone,
+      reached: total >= to,
+    };
+    from = to;
+    return segment;
+  });
+};
+
+export const toMilestoneInputs = (milestones: CampaignMilestone[] = []): MilestoneInput[] =>
+  sortMilestones(milestones).map(milestone => ({
+    amount: formatUnits(milestone.amount),
+    title: milestone.title,
+    description: milestone.description || '',
+  }));
+
+/** Validate form rows into sorted milestones; blank rows are ignored */
+export const parseMilestoneInputs = (
+  inputs: MilestoneInput[]
+): { milestones?: CampaignMilestone[]; error?: string } => {
+  const rows = inputs.filter(row => row.amount.trim() || row.title.trim() || row.description.trim());
+  if (rows.length > MAX_MILESTONES) {
+    return { error: `A campaign can have at most ${MAX_MILESTONES} milestones` };
+  }
+
+  const milestones: CampaignMilestone[] = [];
+  for (const row of rows) {
+    const amount = tryParseTokenAmount(row.amount.trim());
+    if (amount === null || amount <= 0n) {
+      return { error: 'Each milestone needs an amount greater than 0' };
+    }
+    const title = row.title.trim().slice(0, MAX_MILESTONE_TITLE_LENGTH);
+    if (!title) {
+      return { error: 'Each milestone needs a title' };
+    }
+    if (milestones.some(m => toBigInt(m.amount) === amount)) {
+      return { error: 'Two milestones cannot have the same amount' };
+    }
+    const description = row.description.trim().slice(0, MAX_MILESTONE_DESCRIPTION_LENGTH) || undefined;
+    milestones.push({ amount: amount.toString(), title, description });
+  }
+  return { milestones: sortMilestones(milestones) };
+};
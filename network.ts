@@ -0,0 +1,84 @@
+// src/config/network.ts
+// Network the app talks to. Selected at build time with VITE_NETWORK or at runtime with
+// window.__ENV__.NETWORK; individual values can still be overridden through their own env vars.
+
+export type NetworkName = 'mainnet' | 'sepolia' | 'local';
+
+export interface NetworkConfig {
+  name: NetworkName;
+  label: string;
+  chainId: number;
+  rpcUrl: string;
+  wldTokenAddress: string;
+  // Block explorer base URL; empty when the network has none
+  explorerUrl: string;
+  isTestnet: boolean;
+}
+
+const NETWORKS: Record<NetworkName, NetworkConfig> = {
+  mainnet: {
+    name: 'mainnet',
+    label: 'World Chain',
+    chainId: 480,
+    rpcUrl: 'https://worldchain-mainnet.g.alchemy.com/public',
+    wldTokenAddress: '0x2cFc85d8E48F8EAB294be644d9E25C3030863003',
+    explorerUrl: 'https://worldscan.org',
+    isTestnet: false,
+  },
+  sepolia: {
+    name: 'sepolia',
+    label: 'World Chain Sepolia',
+    chainId: 4801,
+    rpcUrl: 'https://worldchain-sepolia.g.alchemy.com/public',
+    // No canonical test WLD; point VITE_WLD_TOKEN_ADDRESS at the test token in use
+    wldTokenAddress: '',
+    explorerUrl: 'https://sepolia.worldscan.org',
+    isTestnet: true,
+  },
+  local: {
+    name: 'local',
+    label: 'Local dev chain',
+    chainId: 31337,
+    rpcUrl: 'http://127.0.0.1:8545',
+    wldTokenAddress: '',
+    explorerUrl: '',
+    isTestnet: true,
+  },
+};
+
+const isNetworkName = (value: unknown): value is NetworkName =>
+  value === 'mainnet' || value === 'sepolia' || value === 'local';
+
+const resolveNetwork = (): NetworkConfig => {
+  const runtime = typeof window !== 'undefined' ? window.__ENV__?.NETWORK : undefined;
+  const requested = runtime || import.meta.env.VITE_NETWORK || 'mainnet';
+  if (!isNetworkName(requested)) {
+    console.warn(`[network] Unknown network "${requested}"; using mainnet`);
+  }
+  const base = NETWORKS[isNetworkName(requested) ? requested : 'mainnet'];
+
+  const chainId = Number(import.meta.env.VITE_CHAIN_ID);
+  const config: NetworkConfig = {
+    ...base,
+    chainId: Number.isInteger(chainId) && chainId > 0 ? chainId : base.chainId,
+    rpcUrl: import.meta.env.VITE_WORLDCHAIN_RPC_URL || base.rpcUrl,
+    wldTokenAddress: (import.meta.env.VITE_WLD_TOKEN_ADDRESS || base.wldTokenAddress).toLowerCase(),
+    explorerUrl: import.meta.env.VITE_EXPLORER_URL ?? base.explorerUrl,
+  };
+
+  if (!config.wldTokenAddress) {
+    console.error(`[network] No WLD token address for ${config.label}; set VITE_WLD_TOKEN_ADDRESS`);
+  }
+  console.log(`[network] Using ${config.label} (chain ${config.chainId})`);
+  return config;
+};
+
+export const network: NetworkConfig = resolveNetwork();
+
+/** Explorer link for a transaction, or null when the network has no explorer */
+export const getTransactionUrl = (txHash: string): string | null =>
+  network.explorerUrl ? `${network.explorerUrl.replace(/\/$/, '')}/tx/${txHash}` : null;
+
+/** Explorer link for an address, or null when the network has no explorer */
+export const getAddressUrl = (address: string): string | null =>
+  network.explorerUrl ? `${network.explorerUrl.replace(/\/$/, '')}/address/${address}` : null;
@@ -0,0 +1,73 @@
+// src/config/platformFee.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const PLATFORM = '0x4444444444444444444444444444444444444444';
+const WLD = 10n ** 18n;
+
+// The config is read from the environment when the module loads
+const loadModule = async (env: Record<string, string> = {}) => {
+  vi.resetModules();
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  return import('./platformFee');
+};
+
+describe('calculateTip', () => {
+  let calculateTip: typeof import('./platformFee')['calculateTip'];
+
+  beforeEach(async () => {
+    ({ calculateTip } = await loadModule({ VITE_PLATFORM_FEE_ADDRESS: PLATFORM, VITE_PLATFORM_TIP_MAX_PERCENT: '20' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('takes the percentage of the donation in base units', () => {
+    expect(calculateTip(100n * WLD, 10)).toBe(10n * WLD);
+    expect(calculateTip((100n * WLD).toString(), 5)).toBe(5n * WLD);
+    expect(calculateTip(200n * WLD, 2.5)).toBe(5n * WLD);
+  });
+
+  it('rounds down', () => {
+    expect(calculateTip(7n, 15)).toBe(1n);
+    expect(calculateTip(19n, 5)).toBe(0n);
+  });
+
+  it('is zero for no tip or an invalid percentage', () => {
+    expect(calculateTip(100n * WLD, 0)).toBe(0n);
+    expect(calculateTip(100n * WLD, -5)).toBe(0n);
+    expect(calculateTip(100n * WLD, Number.NaN)).toBe(0n);
+  });
+
+  it('never exceeds the maximum percentage', () => {
+    expect(calculateTip(100n * WLD, 50)).toBe(20n * WLD);
+  });
+});
+
+describe('platformFee', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is disabled without a valid recipient address', async () => {
+    expect((await loadModule({ VITE_PLATFORM_FEE_ADDRESS: '' })).platformFee.enabled).toBe(false);
+    expect((await loadModule({ VITE_PLATFORM_FEE_ADDRESS: '0x1234' })).platformFee.enabled).toBe(false);
+    expect((await loadModule({ VITE_PLATFORM_FEE_ADDRESS: PLATFORM })).platformFee.enabled).toBe(true);
+  });
+
+  it('offers no tip plus the configured options up to the maximum, sorted and deduplicated', async () => {
+    const { platformFee } = await loadModule({
+      VITE_PLATFORM_FEE_ADDRESS: PLATFORM,
+      VITE_PLATFORM_TIP_OPTIONS: '15, 5, abc, 30, 5, -1',
+      VITE_PLATFORM_TIP_MAX_PERCENT: '20',
+    });
+    expect(platformFee.tipOptions).toEqual([0, 5, 15]);
+  });
+
+  it('falls back to no tip when the default is not an offered option', async () => {
+    const offered = await loadModule({ VITE_PLATFORM_TIP_OPTIONS: '5,10', VITE_PLATFORM_TIP_DEFAULT_PERCENT: '10' });
+    expect(offered.platformFee.defaultTipPercent).toBe(10);
+    const missing = await loadModule({ VITE_PLATFORM_TIP_OPTIONS: '5,10', VITE_PLATFORM_TIP_DEFAULT_PERCENT: '7' });
+    expect(missing.platformFee.defaultTipPercent).toBe(0);
+  });
+});
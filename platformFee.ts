@@ -0,0 +1,50 @@
+// src/config/platformFee.ts
+// Optional platform tips added at donation time. A tip is a separate WLD transfer to the
+// platform address and is recorded on the donation, but it never counts towards the
+// campaign's raised total; the backend books it in the platform revenue ledger instead.
+
+import { TokenAmount, toBigInt } from '../utils/tokenAmount';
+
+export interface PlatformFeeConfig {
+  // Tips are offered only when a recipient is configured
+  enabled: boolean;
+  recipient: string;
+  // Whole-number percentages offered to the donor; 0 is always offered
+  tipOptions: number[];
+  defaultTipPercent: number;
+  maxTipPercent: number;
+}
+
+const parsePercent = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const buildConfig = (): PlatformFeeConfig => {
+  const recipient = (import.meta.env.VITE_PLATFORM_FEE_ADDRESS || '').trim();
+  const maxTipPercent = parsePercent(import.meta.env.VITE_PLATFORM_TIP_MAX_PERCENT, 20);
+  const options = (import.meta.env.VITE_PLATFORM_TIP_OPTIONS || '5,10,15')
+    .split(',')
+    .map(option => parsePercent(option.trim(), -1))
+    .filter(option => option > 0 && option <= maxTipPercent);
+  const tipOptions = [0, ...Array.from(new Set(options)).sort((a, b) => a - b)];
+  const defaultTipPercent = parsePercent(import.meta.env.VITE_PLATFORM_TIP_DEFAULT_PERCENT, 0);
+
+  return {
+    enabled: /^0x[0-9a-fA-F]{40}$/.test(recipient),
+    recipient,
+    tipOptions,
+    defaultTipPercent: tipOptions.includes(defaultTipPercent) ? defaultTipPercent : 0,
+    maxTipPercent,
+  };
+};
+
+export const platformFee: PlatformFeeConfig = buildConfig();
+
+/** Tip in base units for a donation amount and percentage, rounded down */
+export const calculateTip = (amount: TokenAmount | bigint, percent: number): bigint => {
+  if (!Number.isFinite(percent) || percent <= 0) return 0n;
+  // Percent in basis points keeps fractional percentages exact enough without floats
+  const bps = BigInt(Math.round(Math.min(percent, platformFee.maxTipPercent) * 100));
+  return (toBigInt(amount) * bps) / 10_000n;
+};
@@ -0,0 +1,136 @@
+// src/utils/quadratic.test.ts
+import { describe, expect, it } from 'vitest';
+import { bigintSqrt, computeRoundResults } from './quadratic';
+import type { Campaign, Donation } from '../services/CampaignService';
+import type { FundingRound } from '../services/FundingRoundService';
+
+const WLD = 10n ** 18n;
+
+const round: FundingRound = {
+  id: 'round-1',
+  name: 'Round 1',
+  matchingPool: (1000n * WLD).toString(),
+  startsAt: '2026-03-01T00:00:00.000Z',
+  endsAt: '2026-03-31T00:00:00.000Z',
+  campaignIds: ['a', 'b'],
+  createdAt: '2026-02-01T00:00:00.000Z',
+};
+
+let donationCount = 0;
+const donation = (wld: bigint, nullifierHash?: string, patch: Partial<Donation> = {}): Donation => ({
+  id: `donation-${++donationCount}`,
+  amount: (wld * WLD).toString(),
+  donor: '0x2222222222222222222222222222222222222222',
+  txHash: `0x${donationCount.toString(16).padStart(64, '0')}`,
+  createdAt: '2026-03-10T00:00:00.000Z',
+  currency: 'WLD',
+  status: 'confirmed',
+  nullifierHash,
+  ...patch,
+});
+
+const campaign = (id: string, donations: Donation[]): Campaign => ({
+  id,
+  title: `Campaign ${id}`,
+  description: '',
+  goal: (100n * WLD).toString(),
+  raised: '0',
+  payoutAddress: '0x1111111111111111111111111111111111111111',
+  ownerId: '0x3333333333333333333333333333333333333333',
+  status: 'active',
+  createdAt: '2026-02-01T00:00:00.000Z',
+  updatedAt: '2026-02-01T00:00:00.000Z',
+  donations,
+  currency: 'WLD',
+});
+
+describe('bigintSqrt', () => {
+  it('returns the floor of the square root', () => {
+    expect(bigintSqrt(0n)).toBe(0n);
+    expect(bigintSqrt(1n)).toBe(1n);
+    expect(bigintSqrt(15n)).toBe(3n);
+    expect(bigintSqrt(16n)).toBe(4n);
+    expect(bigintSqrt(10n ** 36n)).toBe(10n ** 18n);
+    expect(bigintSqrt(10n ** 36n - 1n)).toBe(10n ** 18n - 1n);
+  });
+
+  it('rejects negative numbers', () => {
+    expect(() => bigintSqrt(-1n)).toThrow();
+  });
+});
+
+describe('computeRoundResults', () => {
+  it('matches (Σ√c)² − Σc over unique humans', () => {
+    // (√4 + √9)² − (4 + 9) = 25 − 13 = 12 WLD
+    const results = computeRoundResults(round, [campaign('a', [donation(4n, 'alice'), donation(9n, 'bob')])]);
+
+    expect(results.scaled).toBe(false);
+    expect(results.campaigns[0]).toMatchObject({
+      campaignId: 'a',
+      contributed: 13n * WLD,
+      uniqueHumans: 2,
+      matching: 12n * WLD,
+    });
+  });
+
+  it('counts repeat donations from one human once', () => {
+    // One human giving 4 + 5 WLD is a single contribution of 9, which earns no match
+    const results = computeRoundResults(round, [campaign('a', [donation(4n, 'alice'), donation(5n, 'alice')])]);
+
+    expect(results.campaigns[0]).toMatchObject({ contributed: 9n * WLD, uniqueHumans: 1, matching: 0n });
+  });
+
+  it('leaves out unverified, unconfirmed and out-of-window donations', () => {
+    const results = computeRoundResults(round, [
+      campaign('a', [
+        donation(4n, 'alice'),
+        donation(9n, 'bob'),
+        donation(7n),
+        donation(16n, 'carol', { status: 'pending' }),
+        donation(16n, 'dave', { status: 'failed' }),
+        donation(16n, 'erin', { createdAt: '2026-02-28T23:59:59.000Z' }),
+        donation(16n, 'frank', { createdAt: '2026-04-01T00:00:00.000Z' }),
+      ]),
+    ]);
+
+    expect(results.campaigns[0]).toMatchObject({
+      contributed: 13n * WLD,
+      uniqueHumans: 2,
+      unverifiedContributed: 7n * WLD,
+      matching: 12n * WLD,
+    });
+  });
+
+  it('skips campaigns that are not in the round', () => {
+    const results = computeRoundResults(round, [
+      campaign('a', [donation(4n, 'alice'), donation(9n, 'bob')]),
+      campaign('c', [donation(4n, 'alice'), donation(9n, 'bob')]),
+    ]);
+
+    expect(results.campaigns.map(c => c.campaignId)).toEqual(['a']);
+  });
+
+  it('scales every match down when the pool is too small, never paying out more than the pool', () => {
+    // Ideal matches are 12 WLD and 2 WLD; a 10 WLD pool pays 10/14 of each, rounded down
+    const pool = 10n * WLD;
+    const results = computeRoundResults({ ...round, matchingPool: pool.toString() }, [
+      campaign('a', [donation(4n, 'alice'), donation(9n, 'bob')]),
+      campaign('b', [donation(1n, 'alice'), donation(1n, 'bob')]),
+    ]);
+
+    expect(results.scaled).toBe(true);
+    expect(results.campaigns.map(c => c.matching)).toEqual([(12n * WLD * pool) / (14n * WLD), (2n * WLD * pool) / (14n * WLD)]);
+    expect(results.totalMatching <= pool).toBe(true);
+    expect(pool - results.totalMatching < 2n).toBe(true);
+  });
+
+  it('pays ideal matches in full when the pool covers them', () => {
+    const results = computeRoundResults(round, [
+      campaign('a', [donation(4n, 'alice'), donation(9n, 'bob')]),
+      campaign('b', [donation(1n, 'alice'), donation(1n, 'bob')]),
+    ]);
+
+    expect(results.scaled).toBe(false);
+    expect(results.totalMatching).toBe(14n * WLD);
+  });
+});
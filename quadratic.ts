@@ -0,0 +1,107 @@
+// src/utils/quadratic.ts
+// Quadratic funding (CLR) for a round. A campaign's ideal match is
+// (Σ √cᵢ)² − Σ cᵢ over each unique human's total contribution cᵢ; when the ideal
+// matches add up to more than the pool, every campaign is scaled down proportionally.
+
+import type { Campaign } from '../services/CampaignService';
+import type { FundingRound } from '../services/FundingRoundService';
+import { toBigInt } from './tokenAmount';
+
+export interface CampaignRoundResult {
+  campaignId: string;
+  campaignTitle: string;
+  // Confirmed contributions made during the round by World ID verified donors
+  contributed: bigint;
+  uniqueHumans: number;
+  // Contributions in the round without a nullifier; they are not matched
+  unverifiedContributed: bigint;
+  matching: bigint;
+}
+
+export interface RoundResults {
+  campaigns: CampaignRoundResult[];
+  totalContributed: bigint;
+  totalMatching: bigint;
+  // True when the pool was too small for every ideal match and results were scaled
+  scaled: boolean;
+}
+
+/** Integer square root (floor) */
+export const bigintSqrt = (value: bigint): bigint => {
+  if (value < 0n) throw new Error('Square root of a negative number');
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+};
+
+/** Total per unique human for one campaign's confirmed donations inside the round window */
+const contributionsByHuman = (campaign: Campaign, round: FundingRound) => {
+  const start = new Date(round.startsAt).getTime();
+  const end = new Date(round.endsAt).getTime();
+  const byHuman = new Map<string, bigint>();
+  let unverified = 0n;
+
+  for (const donation of campaign.donations || []) {
+    if ((donation.status ?? 'confirmed') !== 'confirmed') continue;
+    const createdAt = new Date(donation.createdAt).getTime();
+    if (createdAt < start || createdAt > end) continue;
+    const amount = toBigInt(donation.amount);
+    if (!donation.nullifierHash) {
+      unverified += amount;
+      continue;
+    }
+    byHuman.set(donation.nullifierHash, (byHuman.get(donation.nullifierHash) ?? 0n) + amount);
+  }
+  return { byHuman, unverified };
+};
+
+/** Matching for every participating campaign; campaigns missing from the list are skipped */
+export const computeRoundResults = (round: FundingRound, campaigns: Campaign[]): RoundResults => {
+  const participating = campaigns.filter(c => round.campaignIds.includes(c.id));
+
+  const ideal = participating.map(campaign => {
+    const { byHuman, unverified } = contributionsByHuman(campaign, round);
+    let sumOfRoots = 0n;
+    let sumOfSquares = 0n;
+    let contributed = 0n;
+    byHuman.forEach(amount => {
+      const root = bigintSqrt(amount);
+      sumOfRoots += root;
+      // Use root² rather than the amount so rounding can never make the match negative
+      sumOfSquares += root * root;
+      contributed += amount;
+    });
+    return {
+      campaign,
+      contributed,
+      uniqueHumans: byHuman.size,
+      unverified,
+      idealMatch: sumOfRoots * sumOfRoots - sumOfSquares,
+    };
+  });
+
+  const pool = toBigInt(round.matchingPool);
+  const totalIdeal = ideal.reduce((sum, entry) => sum + entry.idealMatch, 0n);
+  const scaled = totalIdeal > pool;
+
+  const results = ideal.map(entry => ({
+    campaignId: entry.campaign.id,
+    campaignTitle: entry.campaign.title,
+    contributed: entry.contributed,
+    uniqueHumans: entry.uniqueHumans,
+    unverifiedContributed: entry.unverified,
+    matching: scaled ? (entry.idealMatch * pool) / totalIdeal : entry.idealMatch,
+  }));
+
+  return {
+    campaigns: results.sort((a, b) => (b.matching > a.matching ? 1 : b.matching < a.matching ? -1 : 0)),
+    totalContributed: results.reduce((sum, r) => sum + r.contributed, 0n),
+    totalMatching: results.reduce((sum, r) => sum + r.matching, 0n),
+    scaled,
+  };
+};
@@ -0,0 +1,186 @@
+// src/utils/receipt.ts
+// Donation receipts rendered client-side as printable HTML or a minimal PDF.
+
+import { formatTokenAmount } from './tokenAmount';
+import type { TokenAmount } from './tokenAmount';
+import type { Donation } from '../services/CampaignService';
+import { getTransactionUrl } from '../config/network';
+
+export interface ReceiptData {
+  donationId: string;
+  campaignId: string;
+  campaignTitle: string;
+  amount: TokenAmount;
+  // Platform tip paid with the donation; listed separately because the campaign did not receive it
+  tipAmount?: TokenAmount;
+  txHash: string;
+  createdAt: string;
+  donor: string;
+  // Explorer link for the transaction; null on networks without an explorer
+  verificationUrl: string | null;
+}
+
+/** Receipt for a donation; only confirmed donations should be given one */
+export const createReceipt = (donation: Donation, campaignId: string, campaignTitle: string): ReceiptData => ({
+  donationId: donation.id,
+  campaignId,
+  campaignTitle,
+  amount: donation.amount,
+  tipAmount: donation.tipTxHash ? donation.tipAmount : undefined,
+  txHash: donation.txHash,
+  createdAt: donation.createdAt,
+  donor: donation.donor,
+  verificationUrl: donation.txHash ? getTransactionUrl(donation.txHash) : null,
+});
+
+interface ReceiptLine {
+  label: string;
+  value: string;
+}
+
+const receiptLines = (receipt: ReceiptData): ReceiptLine[] => [
+  { label: 'Campaign', value: receipt.campaignTitle },
+  { label: 'Amount', value: `${formatTokenAmount(receipt.amount, { maxFractionDigits: 18 })} WLD` },
+  ...(receipt.tipAmount
+    ? [{ label: 'Platform tip', value: `${formatTokenAmount(receipt.tipAmount, { maxFractionDigits: 18 })} WLD (to WorldFund)` }]
+    : []),
+  { label: 'Date', value: new Date(receipt.createdAt).toUTCString() },
+  { label: 'Donor wallet', value: receipt.donor },
+  { label: 'Transaction', value: receipt.txHash },
+  { label: 'Verify', value: receipt.verificationUrl || 'Look up the transaction hash on World Chain' },
+  { label: 'Receipt ID', value: receipt.donationId },
+];
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/** Standalone HTML document with one receipt per printed page */
+export const renderReceiptsHtml = (receipts: ReceiptData[]): string => {
+  const pages = receipts.map(receipt => {
+    const rows = receiptLines(receipt)
+      .map(line => {
+        const value = line.label === 'Verify' && receipt.verificationUrl
+          ? `<a href="${escapeHtml(receipt.verificationUrl)}">${escapeHtml(receipt.verificationUrl)}</a>`
+          : escapeHtml(line.value);
+        return `<tr><th>${escapeHtml(line.label)}</th><td>${value}</td></tr>`;
+      })
+      .join('');
+    return `<section class="receipt"><h1>WorldFund Donation Receipt</h1><table>${rows}</table>` +
+      '<p class="note">This receipt confirms a WLD transfer recorded on World Chain. ' +
+      'It is not a tax document.</p></section>';
+  });
+
+  return '<!DOCTYPE html><html><head><meta charset="utf-8"><title>WorldFund receipts</title><style>' +
+    'body{font-family:Helvetica,Arial,sans-serif;color:#111;margin:0}' +
+    '.receipt{padding:40px;max-width:720px;margin:0 auto;page-break-after:always}' +
+    '.receipt:last-child{page-break-after:auto}' +
+    'h1{font-size:20px;margin-bottom:24px}' +
+    'table{border-collapse:collapse;width:100%}' +
+    'th{text-align:left;width:140px;padding:6px 8px;color:#555;vertical-align:top}' +
+    'td{padding:6px 8px;word-break:break-all;font-family:monospace}' +
+    '.note{margin-top:24px;font-size:12px;color:#666}' +
+    `</style></head><body>${pages.join('')}</body></html>`;
+};
+
+/** Open the receipts in a new window and show the print dialog */
+export const printReceipts = (receipts: ReceiptData[]): void => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error('Allow pop-ups to print receipts');
+  }
+  win.document.write(renderReceiptsHtml(receipts));
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
+// WinAnsiEncoding codes 0x80-0x9f; 0xa0-0xff are the same as Latin-1
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '\u20ac': 0x80, '\u201a': 0x82, '\u0192': 0x83, '\u201e': 0x84, '\u2026': 0x85, '\u2020': 0x86,
+  '\u2021': 0x87, '\u02c6': 0x88, '\u2030': 0x89, '\u0160': 0x8a, '\u2039': 0x8b, '\u0152': 0x8c,
+  '\u017d': 0x8e, '\u2018': 0x91, '\u2019': 0x92, '\u201c': 0x93, '\u201d': 0x94, '\u2022': 0x95,
+  '\u2013': 0x96, '\u2014': 0x97, '\u02dc': 0x98, '\u2122': 0x99, '\u0161': 0x9a, '\u203a': 0x9b,
+  '\u0153': 0x9c, '\u017e': 0x9e, '\u0178': 0x9f,
+};
+
+/**
+ * Escape a string for a PDF text operator. The built-in fonts use WinAnsiEncoding, which
+ * covers Latin-1 plus a few typographic characters; anything else (e.g. CJK or emoji in a
+ * campaign title) prints as '?'. Non-ASCII bytes are written as octal escapes.
+ */
+const pdfText = (value: string): string =>
+  Array.from(value, char => {
+    if (char === '\\' || char === '(' || char === ')') return `\\${char}`;
+    const code = char.codePointAt(0)!;
+    if (code >= 0x20 && code <= 0x7e) return char;
+    const byte = code >= 0xa0 && code <= 0xff ? code : WIN_ANSI_EXTRA[char];
+    return byte === undefined ? '?' : `\\${byte.toString(8)}`;
+  }).join('');
+
+// Break long values (hashes, URLs) so they stay on the page
+const wrap = (value: string, width: number): string[] => {
+  const lines: string[] = [];
+  for (let i = 0; i < value.length; i += width) {
+    lines.push(value.slice(i, i + width));
+  }
+  return lines.length > 0 ? lines : [''];
+};
+
+const pageContent = (receipt: ReceiptData): string => {
+  const ops: string[] = ['BT', '/F1 18 Tf', '50 780 Td', `(${pdfText('WorldFund Donation Receipt')}) Tj`, 'ET'];
+  let y = 740;
+  for (const line of receiptLines(receipt)) {
+    ops.push('BT', '/F2 10 Tf', `50 ${y} Td`, `(${pdfText(line.label)}) Tj`, 'ET');
+    for (const part of wrap(line.value, 70)) {
+      ops.push('BT', '/F1 10 Tf', `150 ${y} Td`, `(${pdfText(part)}) Tj`, 'ET');
+      y -= 16;
+    }
+    y -= 6;
+  }
+  ops.push(
+    'BT', '/F1 8 Tf', `50 ${y - 20} Td`,
+    `(${pdfText('This receipt confirms a WLD transfer recorded on World Chain. It is not a tax document.')}) Tj`,
+    'ET'
+  );
+  return ops.join('\n');
+};
+
+/** Minimal PDF (A4, built-in Helvetica) with one receipt per page */
+export const buildReceiptsPdf = (receipts: ReceiptData[]): Blob => {
+  // Objects 1-4 are fixed; each receipt adds a page and its content stream
+  const objects: string[] = [];
+  const pageIds = receipts.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  receipts.forEach((receipt, index) => {
+    const pageId = pageIds[index]!;
+    const content = pageContent(receipt);
+    objects[pageId] = '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] ' +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Content is ASCII, so string length equals byte length for xref offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+};
@@ -0,0 +1,98 @@
+// src/utils/rewardTiers.ts
+// Reward tiers: what donors receive for giving at least a tier's minimum. Limited tiers
+// count every donation that has not failed, so a pending donation holds its unit.
+
+import type { Campaign, Donation, RewardTier, RewardTierPayload } from '../services/CampaignService';
+import { formatUnits, toBigInt, tryParseTokenAmount } from './tokenAmount';
+
+export const MAX_REWARD_TIERS = 10;
+export const MAX_REWARD_TITLE_LENGTH = 60;
+export const MAX_REWARD_DESCRIPTION_LENGTH = 280;
+
+// Tier as edited in a form; amounts and quantity are kept as typed
+export interface RewardTierInput {
+  id?: string;
+  minAmount: string;
+  title: string;
+  description: string;
+  quantity: string;
+}
+
+export interface RewardTierClaims {
+  tier: RewardTier;
+  donations: Donation[];
+  fulfilled: number;
+}
+
+export const sortRewardTiers = <T extends { minAmount: string }>(tiers: T[] = []): T[] =>
+  [...tiers].sort((a, b) => {
+    const diff = toBigInt(a.minAmount) - toBigInt(b.minAmount);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  });
+
+/** Units left in a limited tier, or null when unlimited */
+export const getTierRemaining = (tier: RewardTier, campaign: Campaign): number | null => {
+  if (tier.quantity === undefined) return null;
+  if (tier.remaining !== undefined) return Math.max(0, tier.remaining);
+  const claimed = (campaign.donations || []).filter(
+    d => d.rewardTierId === tier.id && d.status !== 'failed'
+  ).length;
+  return Math.max(0, tier.quantity - claimed);
+};
+
+/** Tiers sorted by minimum, with the remaining count filled in for limited tiers */
+export const getRewardTiers = (campaign: Campaign): RewardTier[] =>
+  sortRewardTiers(campaign.rewardTiers).map(tier => ({
+    ...tier,
+    remaining: getTierRemaining(tier, campaign) ?? undefined,
+  }));
+
+/** Donations grouped under each tier for fulfilment; failed donations are left out */
+export const getRewardClaims = (campaign: Campaign): RewardTierClaims[] =>
+  sortRewardTiers(campaign.rewardTiers).map(tier => {
+    const donations = (campaign.donations || [])
+      .filter(d => d.rewardTierId === tier.id && d.status !== 'failed')
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    return { tier, donations, fulfilled: donations.filter(d => d.rewardFulfilledAt).length };
+  });
+
+export const toRewardTierInputs = (tiers: RewardTier[] = []): RewardTierInput[] =>
+  sortRewardTiers(tiers).map(tier => ({
+    id: tier.id,
+    minAmount: formatUnits(tier.minAmount),
+    title: tier.title,
+    description: tier.description || '',
+    quantity: tier.quantity !== undefined ? String(tier.quantity) : '',
+  }));
+
+/** Validate form rows into tiers sorted by minimum; blank rows are ignored */
+export const parseRewardTierInputs = (
+  inputs: RewardTierInput[]
+): { rewardTiers?: RewardTierPayload[]; error?: string } => {
+  const rows = inputs.filter(row => row.minAmount.trim() || row.title.trim() || row.description.trim() || row.quantity.trim());
+  if (rows.length > MAX_REWARD_TIERS) {
+    return { error: `A campaign can have at most ${MAX_REWARD_TIERS} reward tiers` };
+  }
+
+  const rewardTiers: RewardTierPayload[] = [];
+  for (const row of rows) {
+    const minAmount = tryParseTokenAmount(row.minAmount.trim());
+    if (minAmount === null || minAmount <= 0n) {
+      return { error: 'Each reward needs a minimum amount greater than 0' };
+    }
+    const title = row.title.trim().slice(0, MAX_REWARD_TITLE_LENGTH);
+    if (!title) {
+      return { error: 'Each reward needs a title' };
+    }
+    let quantity: number | undefined;
+    if (row.quantity.trim()) {
+      quantity = Number(row.quantity.trim());
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return { error: 'Reward quantity must be a whole number greater than 0, or empty for unlimited' };
+      }
+    }
+    const description = row.description.trim().slice(0, MAX_REWARD_DESCRIPTION_LENGTH) || undefined;
+    rewardTiers.push({ id: row.id, minAmount: minAmount.toString(), title, description, quantity });
+  }
+  return { rewardTiers: sortRewardTiers(rewardTiers) };
+};
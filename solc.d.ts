@@ -0,0 +1,9 @@
+// src/types/solc.d.ts
+// solc-js ships without type declarations; only compile() is used, by the escrow tests
+declare module 'solc' {
+  const solc: {
+    /** Compile a standard-JSON input and return the standard-JSON output */
+    compile(input: string): string;
+  };
+  export default solc;
+}
@@ -0,0 +1,89 @@
+// src/utils/tokenAmount.ts
+// Token amounts are carried as base-unit integers in decimal strings ("1500000000000000000" = 1.5 WLD)
+// and only converted to human-readable decimals for input and display.
+
+export type TokenAmount = string;
+
+export const WLD_DECIMALS = 18;
+
+const DECIMAL_INPUT = /^\d*\.?\d*$/;
+
+/** True for partial or complete decimal input such as "", "1", "1." or ".5" */
+export const isDecimalInput = (value: string): boolean => DECIMAL_INPUT.test(value);
+
+/** Parse a human decimal string ("1.5") into base units; throws on invalid input or excess precision */
+export const parseTokenAmount = (value: string, decimals: number = WLD_DECIMALS): bigint => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === '.' || !isDecimalInput(trimmed)) {
+    throw new Error('Invalid amount');
+  }
+  const [whole = '', fraction = ''] = trimmed.split('.');
+  if (fraction.length > decimals) {
+    throw new Error(`Amount supports at most ${decimals} decimal places`);
+  }
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+};
+
+/** Like parseTokenAmount but returns null instead of throwing */
+export const tryParseTokenAmount = (value: string, decimals: number = WLD_DECIMALS): bigint | null => {
+  try {
+    return parseTokenAmount(value, decimals);
+  } catch {
+    return null;
+  }
+};
+
+/** Normalise a stored amount to bigint; missing values count as zero */
+export const toBigInt = (amount: TokenAmount | bigint | undefined | null): bigint => {
+  if (typeof amount === 'bigint') return amount;
+  return amount ? BigInt(amount) : 0n;
+};
+
+/** Plain decimal string without grouping, suitable for inputs ("1.5") */
+export const formatUnits = (amount: TokenAmount | bigint, decimals: number = WLD_DECIMALS): string => {
+  const value = toBigInt(amount);
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const base = 10n ** BigInt(decimals);
+  const whole = (abs / base).toString();
+  const fraction = (abs % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+export interface FormatTokenOptions {
+  locale?: string;
+  maxFractionDigits?: number;
+  decimals?: number;
+}
+
+/** Locale-aware display string, truncated (not rounded) to maxFractionDigits */
+export const formatTokenAmount = (
+  amount: TokenAmount | bigint,
+  { locale, maxFractionDigits = 4, decimals = WLD_DECIMALS }: FormatTokenOptions = {}
+): string => {
+  const value = toBigInt(amount);
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const base = 10n ** BigInt(decimals);
+  const formatter = new Intl.NumberFormat(locale);
+  const whole = formatter.format(abs / base);
+  const fraction = (abs % base)
+    .toString()
+    .padStart(decimals, '0')
+    .slice(0, maxFractionDigits)
+    .replace(/0+$/, '');
+  const separator = formatter.formatToParts(1.1).find(part => part.type === 'decimal')?.value || '.';
+  return `${negative ? '-' : ''}${whole}${fraction ? `${separator}${fraction}` : ''}`;
+};
+
+/** Sum base-unit amounts */
+export const sumAmounts = (amounts: Array<TokenAmount | bigint>): bigint =>
+  amounts.reduce<bigint>((sum, amount) => sum + toBigInt(amount), 0n);
+
+/** Whole-number progress percentage of raised towards goal, capped at 100 */
+export const progressPercent = (raised: TokenAmount | bigint, goal: TokenAmount | bigint): number => {
+  const goalValue = toBigInt(goal);
+  if (goalValue <= 0n) return 0;
+  const percent = Number((toBigInt(raised) * 100n) / goalValue);
+  return Math.max(0, Math.min(percent, 100));
+};
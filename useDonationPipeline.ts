@@ -0,0 +1,115 @@
+// src/hooks/useDonationPipeline.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MiniAppPaymentSuccessPayload, MiniAppSendTransactionSuccessPayload } from '@worldcoin/minikit-js';
+import { donationService, DonationAttempt, DonationMethod, DonationState } from '../services/DonationService';
+import type { IntentDetails, PaymentIntent } from '../services/PaymentIntentService';
+import type { TokenAmount } from '../utils/tokenAmount';
+
+const sameDetails = (attempt: DonationAttempt, details: IntentDetails): boolean =>
+  attempt.pledgeId === details.pledgeId &&
+  attempt.nullifierHash === details.nullifierHash &&
+  attempt.tipPercent === details.tipPercent &&
+  attempt.tipAmount === details.tipAmount &&
+  attempt.rewardTierId === details.rewardTierId &&
+  attempt.display?.displayMode === details.display?.displayMode &&
+  attempt.display?.displayName === details.display?.displayName &&
+  attempt.display?.message === details.display?.message;
+
+/** React binding for the donation pipeline; holds the current attempt for one campaign */
+export const useDonationPipeline = (campaignId: string) => {
+  const [attempt, setAttempt] = useState<DonationAttempt | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Retrying a failed attempt keeps its intent, so the backend can deduplicate the retry.
+  // Duplicates and expired intents are final and always start over.
+  // Changing the display name, message, pledge or reward needs a new intent, since the intent carries them.
+  const prepareDraft = useCallback((
+    amount: TokenAmount,
+    method: DonationMethod,
+    details: IntentDetails = {}
+  ): DonationAttempt => {
+    if (
+      attempt &&
+      attempt.state === 'failed' &&
+      attempt.errorCode !== 'duplicate_transaction' &&
+      attempt.errorCode !== 'intent_expired'
+    ) {
+      const retried = donationService.retry(attempt);
+      return {
+        ...retried,
+        amount,
+        method,
+        display: details.display,
+        pledgeId: details.pledgeId,
+        nullifierHash: details.nullifierHash,
+        tipPercent: details.tipPercent,
+        tipAmount: details.tipAmount,
+        rewardTierId: details.rewardTierId,
+        intent: sameDetails(attempt, details) ? retried.intent : undefined,
+      };
+    }
+    return donationService.createDraft(campaignId, amount, method, details);
+  }, [attempt, campaignId]);
+
+  const submitManual = useCallback(async (
+    amount: TokenAmount,
+    txHash: string,
+    campaignAddress: string,
+    details?: IntentDetails
+  ): Promise<DonationAttempt> => {
+    setBusy(true);
+    try {
+      return await donationService.submitManual(prepareDraft(amount, 'manual', details), txHash, campaignAddress, setAttempt);
+    } finally {
+      setBusy(false);
+    }
+  }, [prepareDraft]);
+
+  const submitMiniKit = useCallback(async (
+    amount: TokenAmount,
+    pay: (intent: PaymentIntent) => Promise<MiniAppPaymentSuccessPayload>,
+    details?: IntentDetails
+  ): Promise<DonationAttempt> => {
+    setBusy(true);
+    try {
+      return await donationService.submitMiniKit(prepareDraft(amount, 'minikit', details), pay, setAttempt);
+    } finally {
+      setBusy(false);
+    }
+  }, [prepareDraft]);
+
+  const submitEscrow = useCallback(async (
+    amount: TokenAmount,
+    send: (intent: PaymentIntent) => Promise<MiniAppSendTransactionSuccessPayload>,
+    details?: IntentDetails
+  ): Promise<DonationAttempt> => {
+    setBusy(true);
+    try {
+      return await donationService.submitEscrow(prepareDraft(amount, 'escrow', details), send, setAttempt);
+    } finally {
+      setBusy(false);
+    }
+  }, [prepareDraft]);
+
+  // Latest attempt for the polling effect, which restarts only when the pending donation changes
+  const attemptRef = useRef(attempt);
+  useEffect(() => {
+    attemptRef.current = attempt;
+  }, [attempt]);
+
+  // Keep following a pending donation until it confirms or fails
+  const pendingDonationId = attempt?.state === 'pending_confirmation' ? attempt.intent?.donationId : undefined;
+  useEffect(() => {
+    const pending = attemptRef.current;
+    if (!pending || !pendingDonationId) return;
+    const controller = new AbortController();
+    donationService.awaitConfirmation(pending, setAttempt, controller.signal);
+    return () => controller.abort();
+  }, [pendingDonationId]);
+
+  const reset = useCallback(() => setAttempt(null), []);
+
+  const state: DonationState = attempt?.state ?? 'draft';
+
+  return { attempt, state, busy, submitManual, submitMiniKit, submitEscrow, reset };
+};
@@ -0,0 +1,46 @@
+// src/hooks/useEscrowState.ts
+import { useCallback, useEffect, useState } from 'react';
+import { escrowService, getEscrowMismatch, getEscrowPhase, EscrowPhase, EscrowState } from '../services/EscrowService';
+import type { Campaign } from '../services/CampaignService';
+import type { TokenAmount } from '../utils/tokenAmount';
+
+/** On-chain escrow state for an all-or-nothing campaign, plus the viewer's own contribution */
+export const useEscrowState = (campaign: Campaign | null, enabled: boolean, walletAddress?: string | null) => {
+  const [escrow, setEscrow] = useState<EscrowState | null>(null);
+  const [contribution, setContribution] = useState<TokenAmount>('0');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const campaignId = campaign?.id;
+  const ownerId = campaign?.ownerId;
+
+  const refresh = useCallback(async () => {
+    if (!campaignId || !ownerId || !enabled) return;
+    const ref = { id: campaignId, ownerId };
+    setLoading(true);
+    const result = await escrowService.getEscrowState(ref);
+    if (result.success && result.state) {
+      setEscrow(result.state);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to read escrow');
+    }
+    if (walletAddress) {
+      try {
+        setContribution(await escrowService.getContribution(ref, walletAddress));
+      } catch (err) {
+        console.error('[useEscrowState] Failed to read contribution:', err);
+      }
+    }
+    setLoading(false);
+  }, [campaignId, ownerId, enabled, walletAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const phase: EscrowPhase | null = escrow ? getEscrowPhase(escrow) : null;
+  // Set when the opened escrow's terms are not the ones the campaign shows donors
+  const mismatch = escrow?.opened && campaign ? getEscrowMismatch(escrow, campaign) : null;
+
+  return { escrow, phase, mismatch, contribution, loading, error, refresh };
+};
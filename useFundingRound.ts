@@ -0,0 +1,63 @@
+// src/hooks/useFundingRound.ts
+import { useEffect, useState } from 'react';
+import { campaignService, Campaign } from '../services/CampaignService';
+import { fundingRoundService, FundingRound, RoundPhase, getRoundPhase } from '../services/FundingRoundService';
+import { computeRoundResults, RoundResults } from '../utils/quadratic';
+
+/** Loads a round's participating campaigns and computes its (projected) quadratic matching */
+export const useRoundResults = (round: FundingRound | null, refreshKey: unknown = null) => {
+  const [results, setResults] = useState<RoundResults | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!round) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(round.campaignIds.map(id => campaignService.fetchCampaign(id))).then(responses => {
+      if (cancelled) return;
+      const campaigns = responses
+        .filter(r => r.success && r.campaign)
+        .map(r => r.campaign as Campaign);
+      setResults(computeRoundResults(round, campaigns));
+      setError(
+        campaigns.length < round.campaignIds.length
+          ? 'Some campaigns could not be loaded; matching shown is approximate.'
+          : null
+      );
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [round, refreshKey]);
+
+  return { results, loading, error };
+};
+
+/** The round a campaign is taking part in: the active one, else the next, else the latest ended */
+export const useCampaignRound = (campaignId: string | undefined) => {
+  const [round, setRound] = useState<FundingRound | null>(null);
+
+  useEffect(() => {
+    if (!campaignId) return;
+    let cancelled = false;
+    fundingRoundService.fetchRounds(campaignId).then(result => {
+      if (cancelled || !result.success || !result.rounds) return;
+      const rounds = result.rounds.filter(r => r.campaignIds.includes(campaignId));
+      const byPhase = (phase: RoundPhase) => rounds.filter(r => getRoundPhase(r) === phase);
+      const latestEnded = byPhase('ended').sort(
+        (a, b) => new Date(b.endsAt).getTime() - new Date(a.endsAt).getTime()
+      )[0];
+      setRound(byPhase('active')[0] || byPhase('upcoming')[0] || latestEnded || null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  return round;
+};